@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { MFA_CODE_LENGTH, MfaCodeInput } from './MfaCodeInput';
+
+export const MfaChallenge = () => {
+  const { challengeMfa, redeemRecoveryCode, signOut } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const verify = async (value = code) => {
+    if (value.length !== MFA_CODE_LENGTH) return;
+
+    setIsLoading(true);
+    const { error } = await challengeMfa(value);
+    if (error) {
+      setCode('');
+    }
+    setIsLoading(false);
+  };
+
+  const handleRecoveryCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    await redeemRecoveryCode(formData.get('recoveryCode') as string);
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      {useRecoveryCode ? (
+        <form onSubmit={handleRecoveryCode} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Enter one of the recovery codes you saved when you set up two-factor authentication.
+            Your authenticator will be removed so you can set up a new one.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="recovery-code">Recovery code</Label>
+            <Input
+              id="recovery-code"
+              name="recoveryCode"
+              placeholder="xxxx-xxxx-xxxx"
+              className="font-mono"
+              autoComplete="off"
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Checking..." : "Use recovery code"}
+          </Button>
+        </form>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            verify();
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-muted-foreground">
+            Enter the {MFA_CODE_LENGTH}-digit code from your authenticator app.
+          </p>
+          <MfaCodeInput value={code} onChange={setCode} onComplete={verify} disabled={isLoading} />
+          <Button type="submit" className="w-full" disabled={isLoading || code.length !== MFA_CODE_LENGTH}>
+            {isLoading ? "Verifying..." : "Verify"}
+          </Button>
+        </form>
+      )}
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="link"
+          className="px-0"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          disabled={isLoading}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Lost your device?"}
+        </Button>
+        <Button type="button" variant="link" className="px-0" onClick={() => signOut()}>
+          Sign out
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+export const MFA_CODE_LENGTH = 6;
+
+interface MfaCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+export const MfaCodeInput = ({ value, onChange, onComplete, disabled }: MfaCodeInputProps) => (
+  <div className="flex justify-center">
+    <InputOTP
+      maxLength={MFA_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+    >
+      <InputOTPGroup>
+        {Array.from({ length: MFA_CODE_LENGTH }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  </div>
+);
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TotpEnrollment, useAuth } from '@/hooks/useAuth';
+import { MFA_CODE_LENGTH, MfaCodeInput } from './MfaCodeInput';
+import { RecoveryCodes } from './RecoveryCodes';
+
+interface MfaEnrollmentProps {
+  // Called right before verifying, which upgrades the session to AAL2 immediately
+  onVerifying?: () => void;
+  onComplete: () => void;
+}
+
+export const MfaEnrollment = ({ onVerifying, onComplete }: MfaEnrollmentProps) => {
+  const { enrollMfa, verifyMfaEnrollment } = useAuth();
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const start = async () => {
+    setIsLoading(true);
+    const { data } = await enrollMfa();
+    setEnrollment(data);
+    setIsLoading(false);
+  };
+
+  const verify = async (value = code) => {
+    if (!enrollment || value.length !== MFA_CODE_LENGTH) return;
+
+    setIsLoading(true);
+    onVerifying?.();
+    const { recoveryCodes, error } = await verifyMfaEnrollment(enrollment.factorId, value);
+    setIsLoading(false);
+    if (error) {
+      setCode('');
+    } else if (recoveryCodes) {
+      setRecoveryCodes(recoveryCodes);
+    } else {
+      onComplete();
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button className="w-full" onClick={onComplete}>
+          I've saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Use an authenticator app such as 1Password, Google Authenticator or Authy to
+          generate a sign-in code each time you log in.
+        </p>
+        <Button className="w-full" onClick={start} disabled={isLoading}>
+          {isLoading ? "Preparing..." : "Set up authenticator app"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        verify();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with your authenticator app, then enter the {MFA_CODE_LENGTH}-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img
+          src={enrollment.qrCode}
+          alt="QR code for your authenticator app"
+          className="h-44 w-44 rounded-md bg-white p-2"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="mfa-secret">Can't scan it? Enter this key instead</Label>
+        <Input
+          id="mfa-secret"
+          value={enrollment.secret}
+          readOnly
+          className="font-mono text-xs"
+          onFocus={(e) => e.currentTarget.select()}
+        />
+      </div>
+      <MfaCodeInput value={code} onChange={setCode} onComplete={verify} disabled={isLoading} />
+      <Button type="submit" className="w-full" disabled={isLoading || code.length !== MFA_CODE_LENGTH}>
+        {isLoading ? "Verifying..." : "Verify and turn on"}
+      </Button>
+    </form>
+  );
+};
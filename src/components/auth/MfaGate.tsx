@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { MfaChallenge } from './MfaChallenge';
+import { MfaEnrollment } from './MfaEnrollment';
+
+interface MfaGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only for sessions verified with MFA (AAL2). Users with an
+ * authenticator are challenged for a code; everyone else has to set one up first.
+ */
+export const MfaGate = ({ children }: MfaGateProps) => {
+  const { assuranceLevel } = useAuth();
+  // Verifying a new authenticator upgrades the session before the recovery codes are shown
+  const [enrolling, setEnrolling] = useState(false);
+
+  if (assuranceLevel?.current === 'aal2' && !enrolling) {
+    return <>{children}</>;
+  }
+
+  const challenge = !enrolling && assuranceLevel?.next === 'aal2';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">
+            {challenge ? 'Two-factor authentication' : 'Set up two-factor authentication'}
+          </CardTitle>
+          <CardDescription>
+            {challenge
+              ? 'Confirm it\'s you to continue'
+              : 'TalkSync requires a second step when you sign in'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {challenge ? (
+            <MfaChallenge />
+          ) : (
+            <MfaEnrollment
+              onVerifying={() => setEnrolling(true)}
+              onComplete={() => setEnrolling(false)}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Download } from 'lucide-react';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+export const RecoveryCodes = ({ codes }: RecoveryCodesProps) => {
+  const { toast } = useToast();
+  const text = codes.join('\n');
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Recovery codes copied" });
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+    }
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([`TalkSync recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'talksync-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these codes somewhere safe. Each one can be used once to sign in if you lose
+        access to your authenticator app. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,108 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { ConversationsList } from './ConversationsList';
-import { MessagesList } from './MessagesList';
+import { MessagesList, MessagesListHandle } from './MessagesList';
 import { MessageInput } from './MessageInput';
 import { NewConversationDialog } from './NewConversationDialog';
+import { MessageSearchDialog } from './MessageSearchDialog';
+import { CommandPalette } from './CommandPalette';
+import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog';
+import { TypingIndicator } from './TypingIndicator';
 import { Card } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
-import { Settings, LogOut } from 'lucide-react';
+import { Settings, LogOut, WifiOff, Search } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { getConversationName, useConversations, useConversationsRealtime } from '@/hooks/useConversations';
+import { useConnectionStatus } from '@/hooks/useConnectionStatus';
+import { useOutboxSync } from '@/hooks/useOutbox';
+import { useSessionRevoked } from '@/hooks/useSessions';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { Message } from '@/lib/messages';
+import { isModKey } from '@/lib/shortcuts';
 
 export const ChatInterface = () => {
   const { signOut, user } = useAuth();
-  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  // The URL is the source of truth for the selection so links, refreshes and history work
+  const { conversationId, messageId } = useParams();
+  const selectedConversationId = conversationId ?? null;
   const [showNewConversationDialog, setShowNewConversationDialog] = useState(false);
+  const [newConversationMode, setNewConversationMode] = useState<'dm' | 'group'>('dm');
+  const [showSearchDialog, setShowSearchDialog] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcutsDialog, setShowShortcutsDialog] = useState(false);
+  const messagesListRef = useRef<MessagesListHandle>(null);
+  const { data: conversations = [] } = useConversations();
+  const selectedConversation = conversations.find(c => c.id === selectedConversationId);
+  // DMs show the other person's status, groups their description
+  const headerSubtitle = selectedConversation?.type === 'dm'
+    ? selectedConversation.other_user?.status_text
+    : selectedConversation?.description;
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(selectedConversationId);
+  useConversationsRealtime();
+  useOutboxSync();
+  const { online } = useConnectionStatus();
+  const sessionRevoked = useSessionRevoked();
 
-  const handleNewConversation = () => {
+  // A pending reply only makes sense within the conversation it was started in
+  useEffect(() => {
+    setReplyTo(null);
+  }, [selectedConversationId]);
+
+  const handleNewConversation = (mode: 'dm' | 'group' = 'dm') => {
+    setNewConversationMode(mode);
     setShowNewConversationDialog(true);
   };
 
-  const handleConversationCreated = (conversationId: string) => {
-    setSelectedConversationId(conversationId);
+  const selectConversation = (id: string) => {
+    if (id !== selectedConversationId || messageId) {
+      navigate(`/c/${id}`);
+    }
   };
 
+  // Global shortcuts; the handler is re-bound each render so it sees the current list
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isModKey(e) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowCommandPalette(open => !open);
+        return;
+      }
+
+      if (isModKey(e) && e.key === '/') {
+        e.preventDefault();
+        setShowShortcutsDialog(true);
+        return;
+      }
+
+      if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+        if (conversations.length === 0) return;
+        e.preventDefault();
+
+        const index = conversations.findIndex(c => c.id === selectedConversationId);
+        const next = index === -1
+          ? (e.key === 'ArrowDown' ? 0 : conversations.length - 1)
+          : index + (e.key === 'ArrowDown' ? 1 : -1);
+        if (next >= 0 && next < conversations.length) {
+          selectConversation(conversations[next].id);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   return (
     <div className="h-screen flex bg-background">
       {/* Sidebar */}
@@ -35,10 +117,13 @@ export const ChatInterface = () => {
               </p>
             </div>
             <div className="flex gap-1">
-              <Button variant="ghost" size="icon">
+              <Button variant="ghost" size="icon" onClick={() => setShowSearchDialog(true)}>
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => navigate('/settings')}>
                 <Settings className="h-4 w-4" />
               </Button>
-              <Button variant="ghost" size="icon" onClick={signOut}>
+              <Button variant="ghost" size="icon" onClick={() => signOut()}>
                 <LogOut className="h-4 w-4" />
               </Button>
             </div>
@@ -49,18 +134,43 @@ export const ChatInterface = () => {
         <div className="flex-1">
           <ConversationsList
             selectedConversationId={selectedConversationId}
-            onSelectConversation={setSelectedConversationId}
-            onNewConversation={handleNewConversation}
+            onSelectConversation={selectConversation}
+            onNewConversation={() => handleNewConversation()}
           />
         </div>
       </div>
 
       {/* Main chat area */}
       <div className="flex-1 flex flex-col">
+        {!online && (
+          <div className="flex items-center gap-2 border-b border-border bg-muted px-4 py-2 text-sm text-muted-foreground">
+            <WifiOff className="h-4 w-4" />
+            You're offline. Messages you send will be delivered when the connection is back.
+          </div>
+        )}
         {selectedConversationId ? (
           <>
-            <MessagesList conversationId={selectedConversationId} />
-            <MessageInput conversationId={selectedConversationId} />
+            {headerSubtitle && (
+              <div className="border-b border-border px-4 py-2">
+                <h2 className="font-semibold truncate">{getConversationName(selectedConversation)}</h2>
+                <p className="text-sm text-muted-foreground line-clamp-2">{headerSubtitle}</p>
+              </div>
+            )}
+            <MessagesList
+              ref={messagesListRef}
+              conversationId={selectedConversationId}
+              focusMessageId={messageId ?? null}
+              onReply={setReplyTo}
+            />
+            <TypingIndicator typingUsers={typingUsers} />
+            <MessageInput
+              conversationId={selectedConversationId}
+              replyTo={replyTo}
+              onCancelReply={() => setReplyTo(null)}
+              onEditLastMessage={() => messagesListRef.current?.editLastOwnMessage() ?? false}
+              onTyping={notifyTyping}
+              onStopTyping={stopTyping}
+            />
           </>
         ) : (
           <Card className="flex-1 flex items-center justify-center">
@@ -69,7 +179,7 @@ export const ChatInterface = () => {
               <p className="text-muted-foreground mb-4">
                 Select a conversation to start chatting or create a new one
               </p>
-              <Button onClick={handleNewConversation}>
+              <Button onClick={() => handleNewConversation()}>
                 Start a conversation
               </Button>
             </div>
@@ -81,8 +191,43 @@ export const ChatInterface = () => {
       <NewConversationDialog
         open={showNewConversationDialog}
         onOpenChange={setShowNewConversationDialog}
-        onConversationCreated={handleConversationCreated}
+        defaultMode={newConversationMode}
+        onConversationCreated={selectConversation}
+      />
+
+      <MessageSearchDialog
+        open={showSearchDialog}
+        onOpenChange={setShowSearchDialog}
+      />
+
+      <CommandPalette
+        open={showCommandPalette}
+        onOpenChange={setShowCommandPalette}
+        onSelectConversation={selectConversation}
+        onNewGroup={() => handleNewConversation('group')}
+        onSearchMessages={() => setShowSearchDialog(true)}
+        onShowShortcuts={() => setShowShortcutsDialog(true)}
+      />
+
+      <KeyboardShortcutsDialog
+        open={showShortcutsDialog}
+        onOpenChange={setShowShortcutsDialog}
       />
+
+      {/* Not dismissable: nothing works with a revoked session */}
+      <AlertDialog open={sessionRevoked}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>You've been signed out</AlertDialogTitle>
+            <AlertDialogDescription>
+              This session was ended from another device or browser. Sign in again to keep chatting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={() => signOut()}>Sign in again</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { useNavigate } from 'react-router-dom';
+import { Keyboard, LogOut, Search, Settings, Users } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getConversationName,
+  useConversations,
+  useStartDirectMessage,
+} from '@/hooks/useConversations';
+import { useProfiles } from '@/hooks/useProfiles';
+import { getSenderName } from '@/lib/messages';
+import { MOD_KEY } from '@/lib/shortcuts';
+import { GroupAvatar, UserAvatar } from './UserAvatar';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectConversation: (id: string) => void;
+  onNewGroup: () => void;
+  onSearchMessages: () => void;
+  onShowShortcuts: () => void;
+}
+
+// Items are matched on their keywords only; values are ids and would match random letters
+const filterByKeywords = (_value: string, search: string, keywords?: string[]) =>
+  keywords?.some(keyword => keyword.toLowerCase().includes(search.toLowerCase())) ? 1 : 0;
+
+export const CommandPalette = ({
+  open,
+  onOpenChange,
+  onSelectConversation,
+  onNewGroup,
+  onSearchMessages,
+  onShowShortcuts,
+}: CommandPaletteProps) => {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: conversations = [] } = useConversations();
+  const { data: profiles = [] } = useProfiles({ enabled: open });
+  const { mutateAsync: startDirectMessage } = useStartDirectMessage();
+
+  // Close first so the palette doesn't linger over whatever the command opens
+  const run = (command: () => void) => {
+    onOpenChange(false);
+    command();
+  };
+
+  const openDirectMessage = async (otherUserId: string) => {
+    onOpenChange(false);
+    try {
+      const { conversationId } = await startDirectMessage(otherUserId);
+      onSelectConversation(conversationId);
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+      toast({
+        title: "Failed to create conversation",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      commandProps={{ filter: filterByKeywords }}
+    >
+      <CommandInput placeholder="Jump to a conversation, person or action..." />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        <CommandGroup heading="Conversations">
+          {conversations.map(conversation => (
+            <CommandItem
+              key={conversation.id}
+              value={`conversation-${conversation.id}`}
+              keywords={[getConversationName(conversation)]}
+              onSelect={() => run(() => onSelectConversation(conversation.id))}
+            >
+              {conversation.type === 'group' ? (
+                <GroupAvatar
+                  name={getConversationName(conversation)}
+                  members={conversation.members.map(member => ({
+                    name: getSenderName(member),
+                    avatarUrl: member.avatar_url,
+                  }))}
+                  className="mr-2 h-6 w-6"
+                />
+              ) : (
+                <UserAvatar
+                  name={getConversationName(conversation)}
+                  avatarUrl={conversation.other_user?.avatar_url}
+                  className="mr-2 h-6 w-6"
+                  fallbackClassName="text-[0.6rem]"
+                />
+              )}
+              {getConversationName(conversation)}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Message someone">
+          {profiles
+            .filter(profile => profile.id !== user?.id)
+            .map(profile => (
+              <CommandItem
+                key={profile.id}
+                value={`person-${profile.id}`}
+                keywords={[getSenderName(profile), profile.username]}
+                onSelect={() => openDirectMessage(profile.id)}
+              >
+                <UserAvatar
+                  name={getSenderName(profile)}
+                  avatarUrl={profile.avatar_url}
+                  className="mr-2 h-6 w-6"
+                  fallbackClassName="text-[0.6rem]"
+                />
+                {getSenderName(profile)}
+                <span className="ml-2 text-xs text-muted-foreground">@{profile.username}</span>
+              </CommandItem>
+            ))}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Actions">
+          <CommandItem value="new-group" keywords={['New group', 'Create group']} onSelect={() => run(onNewGroup)}>
+            <Users className="mr-2" />
+            New group
+          </CommandItem>
+          <CommandItem value="search" keywords={['Search messages', 'Find']} onSelect={() => run(onSearchMessages)}>
+            <Search className="mr-2" />
+            Search messages
+          </CommandItem>
+          <CommandItem value="settings" keywords={['Settings', 'Profile']} onSelect={() => run(() => navigate('/settings'))}>
+            <Settings className="mr-2" />
+            Settings
+          </CommandItem>
+          <CommandItem value="shortcuts" keywords={['Keyboard shortcuts', 'Help']} onSelect={() => run(onShowShortcuts)}>
+            <Keyboard className="mr-2" />
+            Keyboard shortcuts
+            <CommandShortcut>{MOD_KEY} /</CommandShortcut>
+          </CommandItem>
+          <CommandItem value="sign-out" keywords={['Sign out', 'Log out']} onSelect={() => run(() => signOut())}>
+            <LogOut className="mr-2" />
+            Sign out
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
@@ -1,23 +1,30 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import {
+  Conversation,
+  getConversationName,
+  useConversations,
+  useUnreadCounts,
+} from '@/hooks/useConversations';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus, MessageCircle } from 'lucide-react';
+import { Plus, MessageCircle, Timer } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-
-interface Conversation {
-  id: string;
-  name: string | null;
-  type: string;
-  updated_at: string;
-  created_by: string | null;
-  other_user?: {
-    display_name: string | null;
-    username: string;
-  };
-}
+import { Badge } from '@/components/ui/badge';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  formatConversationTimestamp,
+  getMessageSnippet,
+  getSenderName,
+} from '@/lib/messages';
+import { MessageRetentionDialog } from './MessageRetentionDialog';
+import { PresenceDot } from './PresenceDot';
+import { GroupAvatar, UserAvatar } from './UserAvatar';
 
 interface ConversationsListProps {
   selectedConversationId: string | null;
@@ -31,86 +38,21 @@ export const ConversationsList = ({
   onNewConversation,
 }: ConversationsListProps) => {
   const { user } = useAuth();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!user) return;
-
-    const fetchConversations = async () => {
-      const { data: convData, error } = await supabase
-        .from('conversations')
-        .select(`
-          id,
-          name,
-          type,
-          updated_at,
-          created_by,
-          conversation_participants!inner(
-            user_id,
-            profiles(username, display_name)
-          )
-        `)
-        .order('updated_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching conversations:', error);
-        return;
-      }
-
-      // Process conversations to get other user info for DMs
-      const processedConversations = convData?.map((conv: any) => {
-        if (conv.type === 'dm') {
-          const otherParticipant = conv.conversation_participants.find(
-            (p: any) => p.user_id !== user.id
-          );
-          return {
-            ...conv,
-            other_user: otherParticipant?.profiles,
-          };
-        }
-        return conv;
-      }) || [];
-
-      setConversations(processedConversations);
-      setLoading(false);
-    };
-
-    fetchConversations();
-
-    // Set up realtime subscription
-    const channel = supabase
-      .channel('conversations-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'conversations'
-        },
-        () => {
-          fetchConversations();
-        }
-      )
-      .subscribe();
+  const { data: conversations = [], isLoading, error, refetch } = useConversations();
+  const { data: unreadCounts = {} } = useUnreadCounts();
+  const [retentionConversation, setRetentionConversation] = useState<Conversation | null>(null);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user]);
+  const getLastMessagePreview = (conversation: Conversation) => {
+    const lastMessage = conversation.last_message;
+    if (!lastMessage) return 'No messages yet';
 
-  const getConversationName = (conversation: Conversation) => {
-    if (conversation.type === 'group') {
-      return conversation.name || 'Group Chat';
-    }
-    return conversation.other_user?.display_name || conversation.other_user?.username || 'Unknown User';
+    const snippet = getMessageSnippet(lastMessage);
+    if (lastMessage.sender_id === user?.id) return `You: ${snippet}`;
+    if (conversation.type === 'group') return `${getSenderName(lastMessage.profiles)}: ${snippet}`;
+    return snippet;
   };
 
-  const getInitials = (name: string) => {
-    return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
-  };
-
-  if (loading) {
+  if (isLoading) {
     return (
       <Card className="w-80 h-full flex items-center justify-center">
         <p className="text-muted-foreground">Loading conversations...</p>
@@ -118,6 +60,17 @@ export const ConversationsList = ({
     );
   }
 
+  if (error) {
+    return (
+      <Card className="w-80 h-full flex flex-col items-center justify-center gap-2 p-4 text-center">
+        <p className="text-sm text-destructive">Failed to load conversations</p>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          Try again
+        </Button>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-80 h-full flex flex-col">
       <div className="p-4 border-b border-border">
@@ -146,33 +99,81 @@ export const ConversationsList = ({
             </div>
           ) : (
             conversations.map((conversation) => (
-              <div
-                key={conversation.id}
-                className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors hover:bg-accent ${
-                  selectedConversationId === conversation.id 
-                    ? 'bg-accent text-accent-foreground' 
-                    : ''
-                }`}
-                onClick={() => onSelectConversation(conversation.id)}
-              >
-                <Avatar>
-                  <AvatarFallback>
-                    {getInitials(getConversationName(conversation))}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 min-w-0">
-                  <h3 className="font-medium truncate">
-                    {getConversationName(conversation)}
-                  </h3>
-                  <p className="text-xs text-muted-foreground">
-                    {new Date(conversation.updated_at).toLocaleDateString()}
-                  </p>
-                </div>
-              </div>
+              <ContextMenu key={conversation.id}>
+                <ContextMenuTrigger asChild>
+                  <div
+                    className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors hover:bg-accent ${
+                      selectedConversationId === conversation.id 
+                        ? 'bg-accent text-accent-foreground' 
+                        : ''
+                    }`}
+                    onClick={() => onSelectConversation(conversation.id)}
+                  >
+                    <div className="relative shrink-0">
+                      {conversation.type === 'group' ? (
+                        <GroupAvatar
+                          name={getConversationName(conversation)}
+                          members={conversation.members.map(member => ({
+                            name: getSenderName(member),
+                            avatarUrl: member.avatar_url,
+                          }))}
+                        />
+                      ) : (
+                        <UserAvatar
+                          name={getConversationName(conversation)}
+                          avatarUrl={conversation.other_user?.avatar_url}
+                        />
+                      )}
+                      {conversation.type === 'dm' && conversation.other_user_id && (
+                        <PresenceDot userId={conversation.other_user_id} />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <div className="flex min-w-0 items-baseline gap-1.5">
+                          <h3 className={`truncate ${unreadCounts[conversation.id] ? 'font-semibold' : 'font-medium'}`}>
+                            {getConversationName(conversation)}
+                          </h3>
+                          {conversation.type === 'dm' && conversation.other_user?.status_text && (
+                            <span className="truncate text-xs text-muted-foreground">
+                              {conversation.other_user.status_text}
+                            </span>
+                          )}
+                        </div>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {formatConversationTimestamp(conversation.last_message_at)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {getLastMessagePreview(conversation)}
+                      </p>
+                    </div>
+                    {unreadCounts[conversation.id] > 0 && selectedConversationId !== conversation.id && (
+                      <Badge className="rounded-full px-2">
+                        {unreadCounts[conversation.id] > 99 ? '99+' : unreadCounts[conversation.id]}
+                      </Badge>
+                    )}
+                  </div>
+                </ContextMenuTrigger>
+                <ContextMenuContent>
+                  <ContextMenuItem
+                    disabled={conversation.created_by !== user?.id}
+                    onSelect={() => setRetentionConversation(conversation)}
+                  >
+                    <Timer className="mr-2 h-4 w-4" />
+                    Deleted message retention...
+                  </ContextMenuItem>
+                </ContextMenuContent>
+              </ContextMenu>
             ))
           )}
         </div>
       </ScrollArea>
+
+      <MessageRetentionDialog
+        conversation={retentionConversation}
+        onOpenChange={(open) => !open && setRetentionConversation(null)}
+      />
     </Card>
   );
 };
\ No newline at end of file
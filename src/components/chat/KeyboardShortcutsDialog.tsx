@@ -0,0 +1,47 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { KEYBOARD_SHORTCUTS } from '@/lib/shortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const KeyboardShortcutsDialog = ({ open, onOpenChange }: KeyboardShortcutsDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>Keyboard shortcuts</DialogTitle>
+        <DialogDescription>Get around TalkSync without the mouse.</DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        {KEYBOARD_SHORTCUTS.map(({ group, shortcuts }) => (
+          <div key={group} className="space-y-2">
+            <h3 className="text-xs font-medium uppercase text-muted-foreground">{group}</h3>
+            {shortcuts.map(shortcut => (
+              <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                <span>{shortcut.description}</span>
+                <span className="flex shrink-0 gap-1">
+                  {shortcut.keys.map(key => (
+                    <kbd
+                      key={key}
+                      className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-xs"
+                    >
+                      {key}
+                    </kbd>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { FileText, Download, ImageOff, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { formatFileSize, getAttachmentUrl, isImageAttachment } from '@/lib/attachments';
+
+interface MessageAttachmentProps {
+  path: string;
+  name: string | null;
+  size: number | null;
+  mimeType: string | null;
+}
+
+export const MessageAttachment = ({ path, name, size, mimeType }: MessageAttachmentProps) => {
+  const { toast } = useToast();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+  // Bumped by the retry button to request a fresh signed URL
+  const [attempt, setAttempt] = useState(0);
+  const [downloading, setDownloading] = useState(false);
+  const isImage = isImageAttachment(mimeType);
+
+  useEffect(() => {
+    if (!isImage) return;
+
+    let cancelled = false;
+    setImageFailed(false);
+    getAttachmentUrl(path)
+      .then(url => {
+        if (!cancelled) setImageUrl(url);
+      })
+      .catch(error => {
+        console.error('Error loading attachment:', error);
+        if (!cancelled) setImageFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, isImage, attempt]);
+
+  const download = async () => {
+    setDownloading(true);
+    try {
+      window.location.assign(await getAttachmentUrl(path, name ?? true));
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast({
+        title: "Failed to download attachment",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+    setDownloading(false);
+  };
+
+  if (isImage && imageFailed) {
+    return (
+      <div className="flex h-48 w-64 flex-col items-center justify-center gap-2 rounded-md border border-border bg-muted text-muted-foreground">
+        <ImageOff className="h-6 w-6" />
+        <p className="text-sm">Couldn't load image</p>
+        <Button size="sm" variant="outline" onClick={() => setAttempt(a => a + 1)}>
+          <RotateCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  if (isImage) {
+    return imageUrl ? (
+      <a href={imageUrl} target="_blank" rel="noreferrer">
+        <img
+          src={imageUrl}
+          alt={name ?? 'Image attachment'}
+          className="max-h-64 max-w-full rounded-md object-cover"
+          loading="lazy"
+          onError={() => setImageFailed(true)}
+        />
+      </a>
+    ) : (
+      <Skeleton className="h-48 w-64 rounded-md" />
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border border-border bg-background p-2 text-foreground">
+      <FileText className="h-8 w-8 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1 text-left">
+        <p className="text-sm font-medium truncate">{name ?? 'Attachment'}</p>
+        {size !== null && (
+          <p className="text-xs text-muted-foreground">{formatFileSize(size)}</p>
+        )}
+      </div>
+      <Button size="icon" variant="ghost" onClick={download} disabled={downloading}>
+        <Download className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -1,71 +1,198 @@
-import { useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useRef, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useSendMessage } from '@/hooks/useSendMessage';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Send, Paperclip, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { uploadAttachment } from '@/lib/attachments';
+import { Message, getMessageSnippet, getSenderName } from '@/lib/messages';
 
 interface MessageInputProps {
   conversationId: string;
+  replyTo?: Message | null;
+  // When provided, the reply target is shown above the input and can be dismissed
+  onCancelReply?: () => void;
+  onTyping?: () => void;
+  onStopTyping?: () => void;
+  // Up arrow in an empty input; returns whether there was a message to edit
+  onEditLastMessage?: () => boolean;
 }
 
-export const MessageInput = ({ conversationId }: MessageInputProps) => {
+interface PendingUpload {
+  id: string;
+  name: string;
+  progress: number;
+}
+
+export const MessageInput = ({
+  conversationId,
+  replyTo,
+  onCancelReply,
+  onTyping,
+  onStopTyping,
+  onEditLastMessage,
+}: MessageInputProps) => {
   const { user } = useAuth();
   const [message, setMessage] = useState('');
-  const [sending, setSending] = useState(false);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { send } = useSendMessage();
 
-  const sendMessage = async (e: React.FormEvent) => {
+  // The message shows up in the list immediately; delivery failures are shown there
+  const sendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!message.trim() || !user || sending) return;
-
-    setSending(true);
-
-    const { error } = await supabase
-      .from('messages')
-      .insert({
-        content: message.trim(),
-        conversation_id: conversationId,
-        sender_id: user.id,
-        type: 'text'
+
+    if (!message.trim() || !user) return;
+
+    onStopTyping?.();
+    send({
+      conversationId,
+      content: message,
+      replyTo,
+    });
+    setMessage('');
+    onCancelReply?.();
+  };
+
+  const sendAttachment = async (file: File) => {
+    if (!user) return;
+
+    const uploadId = crypto.randomUUID();
+    setUploads(prev => [...prev, { id: uploadId, name: file.name, progress: 0 }]);
+
+    try {
+      const attachment = await uploadAttachment(conversationId, file, (progress) => {
+        setUploads(prev => prev.map(u => (u.id === uploadId ? { ...u, progress } : u)));
       });
 
-    if (error) {
-      console.error('Error sending message:', error);
+      send({
+        conversationId,
+        attachment,
+        replyTo,
+      });
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
       toast({
-        title: "Failed to send message",
-        description: error.message,
+        title: "Failed to upload attachment",
+        description: (error as Error).message,
         variant: "destructive",
       });
-    } else {
-      setMessage('');
-      
-      // Update conversation's updated_at timestamp
-      await supabase
-        .from('conversations')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', conversationId);
     }
 
-    setSending(false);
+    setUploads(prev => prev.filter(u => u.id !== uploadId));
+  };
+
+  const sendAttachments = (files: FileList | File[]) => {
+    Array.from(files).forEach(sendAttachment);
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) sendAttachments(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowUp' && !message && onEditLastMessage?.()) {
+      e.preventDefault();
+    } else if (e.key === 'Escape' && (message || (replyTo && onCancelReply))) {
+      // Clear the draft first, then the reply target
+      e.preventDefault();
+      if (message) {
+        setMessage('');
+        onStopTyping?.();
+      } else {
+        onCancelReply?.();
+      }
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (e.clipboardData.files.length === 0) return;
+
+    e.preventDefault();
+    sendAttachments(e.clipboardData.files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    sendAttachments(e.dataTransfer.files);
   };
 
   return (
-    <div className="border-t border-border p-4">
+    <div
+      className={`border-t border-border p-4 ${dragging ? 'bg-accent' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      {replyTo && onCancelReply && (
+        <div className="mb-3 flex items-center gap-2 rounded-md border-l-2 border-primary bg-muted/50 px-3 py-2">
+          <div className="min-w-0 flex-1 text-xs">
+            <p className="font-medium">Replying to {getSenderName(replyTo.profiles)}</p>
+            <p className="truncate text-muted-foreground">{getMessageSnippet(replyTo)}</p>
+          </div>
+          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={onCancelReply}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+      {uploads.length > 0 && (
+        <div className="mb-3 space-y-2">
+          {uploads.map(upload => (
+            <div key={upload.id} className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span className="truncate">{upload.name}</span>
+                <span>{upload.progress}%</span>
+              </div>
+              <Progress value={upload.progress} className="h-1.5" />
+            </div>
+          ))}
+        </div>
+      )}
       <form onSubmit={sendMessage} className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Paperclip className="h-4 w-4" />
+        </Button>
         <Input
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type a message..."
-          disabled={sending}
+          onChange={(e) => {
+            setMessage(e.target.value);
+            if (e.target.value) onTyping?.();
+            else onStopTyping?.();
+          }}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder={dragging ? "Drop files to send..." : "Type a message..."}
           className="flex-1"
         />
-        <Button type="submit" disabled={!message.trim() || sending} size="icon">
+        <Button type="submit" disabled={!message.trim()} size="icon">
           <Send className="h-4 w-4" />
         </Button>
       </form>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Reaction } from '@/hooks/useReactions';
+import { getSenderName } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉', '🙏', '👀'];
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+}
+
+export const ReactionPicker = ({ onSelect }: ReactionPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Add reaction">
+          <SmilePlus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-1" side="top">
+        <div className="flex gap-1">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              className="rounded-md p-1 text-lg hover:bg-accent"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface MessageReactionsProps {
+  reactions: Reaction[];
+  currentUserId: string | undefined;
+  onToggle: (emoji: string) => void;
+  className?: string;
+}
+
+export const MessageReactions = ({
+  reactions,
+  currentUserId,
+  onToggle,
+  className,
+}: MessageReactionsProps) => {
+  if (reactions.length === 0) return null;
+
+  // Group by emoji, keeping the order in which each emoji was first used
+  const groups = reactions.reduce((acc: Record<string, Reaction[]>, reaction) => {
+    (acc[reaction.emoji] ||= []).push(reaction);
+    return acc;
+  }, {});
+
+  return (
+    <div className={cn("mt-1 flex flex-wrap gap-1", className)}>
+      {Object.entries(groups).map(([emoji, group]) => {
+        const reactedByMe = group.some(r => r.user_id === currentUserId);
+        const names = group.map(r => (r.user_id === currentUserId ? 'You' : getSenderName(r.profiles)));
+
+        return (
+          <Tooltip key={emoji}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                  reactedByMe
+                    ? 'border-primary bg-primary/10 text-foreground'
+                    : 'border-border bg-background text-muted-foreground hover:bg-accent'
+                }`}
+                onClick={() => onToggle(emoji)}
+              >
+                <span>{emoji}</span>
+                <span>{group.length}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>{names.join(', ')}</TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSetMessageRetention } from '@/hooks/useConversations';
+import { useToast } from '@/hooks/use-toast';
+
+const RETENTION_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: 'never', label: 'Keep forever' },
+];
+
+interface MessageRetentionDialogProps {
+  conversation: {
+    id: string;
+    message_retention_days: number | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const MessageRetentionDialog = ({
+  conversation,
+  onOpenChange,
+}: MessageRetentionDialogProps) => {
+  const { toast } = useToast();
+  const [retention, setRetention] = useState('30');
+  const { mutateAsync: setMessageRetention, isPending: saving } = useSetMessageRetention();
+
+  useEffect(() => {
+    if (!conversation) return;
+    setRetention(conversation.message_retention_days?.toString() ?? 'never');
+  }, [conversation]);
+
+  const saveRetention = async () => {
+    if (!conversation || saving) return;
+
+    try {
+      await setMessageRetention({
+        conversationId: conversation.id,
+        retentionDays: retention === 'never' ? null : Number(retention),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating message retention:', error);
+      toast({
+        title: "Failed to update retention",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const options = RETENTION_OPTIONS.some(option => option.value === retention)
+    ? RETENTION_OPTIONS
+    : [...RETENTION_OPTIONS, { value: retention, label: `${retention} days` }];
+
+  return (
+    <Dialog open={!!conversation} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Deleted message retention</DialogTitle>
+          <DialogDescription>
+            Deleted messages show as placeholders until they are permanently removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="retention">Permanently remove after</Label>
+          <Select value={retention} onValueChange={setRetention}>
+            <SelectTrigger id="retention">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveRetention} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { format } from 'date-fns';
+
+interface MessageRevision {
+  id: string;
+  content: string;
+  created_at: string;
+}
+
+interface MessageRevisionsDialogProps {
+  message: {
+    id: string;
+    content: string;
+    edited_at: string | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const MessageRevisionsDialog = ({
+  message,
+  onOpenChange,
+}: MessageRevisionsDialogProps) => {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!message) return;
+
+    const fetchRevisions = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('message_revisions')
+        .select('id, content, created_at')
+        .eq('message_id', message.id)
+        .order('replaced_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching message revisions:', error);
+      } else {
+        setRevisions(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchRevisions();
+  }, [message]);
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Previous versions of this message, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-80">
+          <div className="space-y-3">
+            {message && (
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground mb-1">
+                  Current{message.edited_at && ` · ${format(new Date(message.edited_at), 'PPp')}`}
+                </p>
+                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              </div>
+            )}
+            {loading ? (
+              <p className="text-center text-muted-foreground py-4">Loading history...</p>
+            ) : (
+              revisions.map((revision) => (
+                <div key={revision.id} className="rounded-lg bg-muted p-3">
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {format(new Date(revision.created_at), 'PPp')}
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">{revision.content}</p>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,203 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DateRange } from 'react-day-picker';
+import { addDays, format, startOfDay } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { getConversationName, useConversations } from '@/hooks/useConversations';
+import { HIGHLIGHT_END, HIGHLIGHT_START, useMessageSearch } from '@/hooks/useMessageSearch';
+import { useProfiles } from '@/hooks/useProfiles';
+import { formatConversationTimestamp, getSenderName } from '@/lib/messages';
+
+const ALL = 'all';
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface MessageSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Renders the server's highlight markers as <mark> elements without using HTML
+const renderHeadline = (headline: string) =>
+  headline.split(HIGHLIGHT_START).map((part, index) => {
+    if (index === 0) return <Fragment key={index}>{part}</Fragment>;
+
+    const [match, rest] = part.split(HIGHLIGHT_END);
+    return (
+      <Fragment key={index}>
+        <mark className="rounded-sm bg-primary/20 text-foreground">{match}</mark>
+        {rest}
+      </Fragment>
+    );
+  });
+
+const formatDateRange = (range: DateRange | undefined) => {
+  if (!range?.from) return 'Any date';
+  if (!range.to) return format(range.from, 'MMM d, yyyy');
+  return `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`;
+};
+
+export const MessageSearchDialog = ({ open, onOpenChange }: MessageSearchDialogProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [conversationId, setConversationId] = useState(ALL);
+  const [senderId, setSenderId] = useState(ALL);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const { data: conversations = [] } = useConversations();
+  const { data: profiles = [] } = useProfiles({ enabled: open });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    if (open) return;
+
+    setQuery('');
+    setDebouncedQuery('');
+    setConversationId(ALL);
+    setSenderId(ALL);
+    setDateRange(undefined);
+  }, [open]);
+
+  const { data: results = [], isFetching, error } = useMessageSearch({
+    query: debouncedQuery,
+    conversationId: conversationId === ALL ? null : conversationId,
+    senderId: senderId === ALL ? null : senderId,
+    // The range is inclusive of whole days in the user's time zone
+    sentAfter: dateRange?.from && startOfDay(dateRange.from),
+    sentBefore: dateRange?.from && addDays(startOfDay(dateRange.to ?? dateRange.from), 1),
+  });
+
+  const conversationsById = new Map(conversations.map(c => [c.id, c]));
+
+  const openResult = (result: { id: string; conversation_id: string }) => {
+    onOpenChange(false);
+    navigate(`/c/${result.conversation_id}/m/${result.id}`);
+  };
+
+  const searching = debouncedQuery.trim().length >= 2;
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput
+        placeholder="Search messages..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <div className="flex flex-wrap gap-2 border-b p-2">
+        <Select value={conversationId} onValueChange={setConversationId}>
+          <SelectTrigger className="h-8 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All conversations</SelectItem>
+            {conversations.map(conversation => (
+              <SelectItem key={conversation.id} value={conversation.id}>
+                {getConversationName(conversation)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={senderId} onValueChange={setSenderId}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Anyone</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {getSenderName(profile)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 text-xs font-normal">
+              <CalendarIcon className="mr-2 h-3 w-3" />
+              {formatDateRange(dateRange)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={setDateRange}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+            {dateRange?.from && (
+              <div className="border-t p-2">
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => setDateRange(undefined)}>
+                  Clear dates
+                </Button>
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+      <CommandList>
+        {!searching ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Type at least two characters to search.
+          </p>
+        ) : error ? (
+          <p className="py-6 text-center text-sm text-destructive">
+            Search failed. Please try again.
+          </p>
+        ) : results.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {isFetching ? 'Searching...' : 'No messages found.'}
+          </p>
+        ) : (
+          <CommandGroup heading={`${results.length} ${results.length === 1 ? 'result' : 'results'}`}>
+            {results.map(result => {
+              const conversation = conversationsById.get(result.conversation_id);
+              return (
+                <CommandItem
+                  key={result.id}
+                  value={result.id}
+                  onSelect={() => openResult(result)}
+                  className="flex-col items-start gap-1"
+                >
+                  <div className="flex w-full items-baseline justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="truncate">
+                      <span className="font-medium text-foreground">
+                        {getSenderName({
+                          username: result.sender_username,
+                          display_name: result.sender_display_name,
+                        })}
+                      </span>
+                      {conversation && ` in ${getConversationName(conversation)}`}
+                    </span>
+                    <span className="shrink-0">{formatConversationTimestamp(result.created_at)}</span>
+                  </div>
+                  <p className="line-clamp-2 text-sm">{renderHeadline(result.headline)}</p>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
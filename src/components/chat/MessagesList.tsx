@@ -1,125 +1,449 @@
-import { useEffect, useState, useRef } from 'react';
+import {
+  Fragment,
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useState,
+  useRef,
+} from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useMessages } from '@/hooks/useMessages';
+import { Participant, useParticipants } from '@/hooks/useParticipants';
+import { useReactions, useToggleReaction } from '@/hooks/useReactions';
+import { useSendMessage } from '@/hooks/useSendMessage';
+import { useThread, useThreadReplyCounts } from '@/hooks/useThreads';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Pencil, History, Trash2, Reply, MessagesSquare, Link } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-
-interface Message {
-  id: string;
-  content: string;
-  sender_id: string;
-  created_at: string;
-  edited_at: string | null;
-  profiles: {
-    username: string;
-    display_name: string | null;
-  };
-}
+import { useToast } from '@/hooks/use-toast';
+import { ATTACHMENTS_BUCKET } from '@/lib/attachments';
+import {
+  Message,
+  getMessageSnippet,
+  getSenderName,
+} from '@/lib/messages';
+import { MessageRevisionsDialog } from './MessageRevisionsDialog';
+import { MessageAttachment } from './MessageAttachment';
+import { ThreadPanel } from './ThreadPanel';
+import { PresenceDot } from './PresenceDot';
+import { UserAvatar } from './UserAvatar';
+import { MessageReactions, ReactionPicker } from './MessageReactions';
 
 interface MessagesListProps {
   conversationId: string;
+  // Message to scroll to and highlight once loaded, e.g. from a permalink
+  focusMessageId?: string | null;
+  onReply: (message: Message) => void;
 }
 
-export const MessagesList = ({ conversationId }: MessagesListProps) => {
+export interface MessagesListHandle {
+  // Starts editing the current user's latest text message; false if there is none
+  editLastOwnMessage: () => boolean;
+}
+
+export const MessagesList = forwardRef<MessagesListHandle, MessagesListProps>(({
+  conversationId,
+  focusMessageId,
+  onReply,
+}, ref) => {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    messages,
+    isLoading: loading,
+    isPlaceholderData: showingCachedMessages,
+    error: messagesError,
+    refetch: refetchMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: loadingOlder,
+    fetchNextPage,
+  } = useMessages(conversationId);
+  const { data: reactions = [], error: reactionsError } = useReactions(conversationId);
+  const { mutate: toggleReaction } = useToggleReaction(conversationId);
+  const {
+    data: participants = [],
+    error: participantsError,
+    isFetchedAfterMount: participantsFetched,
+  } = useParticipants(conversationId);
+  const { retry: retrySend, discard: discardSend } = useSendMessage();
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Any message of the open thread; the server resolves the rest of it
+  const [threadMessageId, setThreadMessageId] = useState<string | null>(null);
+  // Message to scroll to once enough history has been loaded to render it
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  // Read position when the conversation was opened, used for the "new messages" divider
+  const [unreadMarker, setUnreadMarker] = useState<{ conversationId: string; since: string } | null>(null);
+  const { toast } = useToast();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const activeConversationIdRef = useRef(conversationId);
+  activeConversationIdRef.current = conversationId;
+  // Scroll height before older messages were prepended, to keep the reading position
+  const pendingScrollRef = useRef<{ previousHeight: number } | null>(null);
+  const nearBottomRef = useRef(true);
+  const renderedLastMessageIdRef = useRef<string | undefined>(undefined);
+
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]');
+
+  // Taken from the first fresh read of the participants, before this visit marks anything read
+  const me = participantsFetched ? participants.find(p => p.user_id === user?.id) : undefined;
+  const myReadPosition = me ? me.last_read_at ?? me.joined_at : null;
+  useEffect(() => {
+    if (myReadPosition) {
+      setUnreadMarker(current => (
+        current?.conversationId === conversationId ? current : { conversationId, since: myReadPosition }
+      ));
+    }
+  }, [conversationId, myReadPosition]);
+  const unreadSince = unreadMarker?.conversationId === conversationId ? unreadMarker.since : null;
+
+  // Reactions and read receipts are secondary; the conversation stays usable without them
+  useEffect(() => {
+    const error = reactionsError || participantsError;
+    if (!error) return;
+
+    toast({
+      title: reactionsError ? "Failed to load reactions" : "Failed to load read receipts",
+      description: error.message,
+      variant: "destructive",
+    });
+  }, [reactionsError, participantsError, toast]);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
 
+  // Mark the conversation as read whenever new messages arrive while it is visible
   useEffect(() => {
-    const fetchMessages = async () => {
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          id,
-          content,
-          sender_id,
-          created_at,
-          edited_at,
-          profiles(username, display_name)
-        `)
-        .eq('conversation_id', conversationId)
-        .eq('is_deleted', false)
-        .order('created_at', { ascending: true });
+    if (!lastMessageId) return;
+
+    const markRead = async () => {
+      if (document.visibilityState !== 'visible') return;
+
+      const { error } = await supabase.rpc('mark_conversation_read', {
+        target_conversation_id: conversationId,
+      });
 
       if (error) {
-        console.error('Error fetching messages:', error);
-        return;
+        console.error('Error marking conversation as read:', error);
       }
-
-      setMessages(data || []);
-      setLoading(false);
     };
 
-    fetchMessages();
-
-    // Set up realtime subscription for new messages
-    const channel = supabase
-      .channel(`messages-${conversationId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversationId}`
-        },
-        async (payload) => {
-          // Fetch the complete message with profile data
-          const { data: newMessage } = await supabase
-            .from('messages')
-            .select(`
-              id,
-              content,
-              sender_id,
-              created_at,
-              edited_at,
-              profiles(username, display_name)
-            `)
-            .eq('id', payload.new.id)
-            .single();
-
-          if (newMessage) {
-            setMessages(prev => [...prev, newMessage]);
-          }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversationId}`
-        },
-        () => {
-          fetchMessages(); // Refetch on updates
-        }
-      )
-      .subscribe();
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
 
     return () => {
-      supabase.removeChannel(channel);
+      document.removeEventListener('visibilitychange', markRead);
     };
+  }, [conversationId, lastMessageId]);
+
+  useEffect(() => {
+    nearBottomRef.current = true;
+    renderedLastMessageIdRef.current = undefined;
   }, [conversationId]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Track whether the reader is at the bottom, so new messages only pull them
+  // down when they were already following the conversation
+  useEffect(() => {
+    const viewport = getViewport();
+    if (loading || !viewport) return;
+
+    const handleScroll = () => {
+      nearBottomRef.current =
+        viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 100;
+    };
+
+    viewport.addEventListener('scroll', handleScroll);
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [loading]);
+
+  // Stick to the bottom for new messages and keep the reading position when
+  // older messages are prepended above it
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const pending = pendingScrollRef.current;
+    pendingScrollRef.current = null;
+    const lastMessage = messages[messages.length - 1];
+
+    if (pending) {
+      viewport.scrollTop += viewport.scrollHeight - pending.previousHeight;
+    } else if (
+      lastMessage?.id !== renderedLastMessageIdRef.current
+      && (nearBottomRef.current || lastMessage?.sender_id === user?.id)
+    ) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+    renderedLastMessageIdRef.current = lastMessage?.id;
+  }, [messages, user?.id]);
+
+  const loadOlderMessages = async () => {
+    // Older pages are keyed off the server's newest page, not the local snapshot
+    if (!hasOlderMessages || loadingOlder || showingCachedMessages) return;
+
+    const viewport = getViewport();
+    if (viewport) {
+      pendingScrollRef.current = { previousHeight: viewport.scrollHeight };
+    }
+
+    const { error } = await fetchNextPage();
+    if (error) {
+      pendingScrollRef.current = null;
+      console.error('Error fetching older messages:', error);
+    }
+  };
+
+  const loadOlderMessagesRef = useRef(loadOlderMessages);
+  loadOlderMessagesRef.current = loadOlderMessages;
+
+  // Load the previous page when the top of the history scrolls into view. The
+  // observer is recreated after each page so a still-visible sentinel fires again.
   useEffect(() => {
-    if (scrollAreaRef.current) {
-      const scrollElement = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
-      if (scrollElement) {
-        scrollElement.scrollTop = scrollElement.scrollHeight;
+    const viewport = getViewport();
+    const sentinel = topSentinelRef.current;
+    if (loading || loadingOlder || showingCachedMessages || !hasOlderMessages || !viewport || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          loadOlderMessagesRef.current();
+        }
+      },
+      { root: viewport, rootMargin: '200px 0px 0px 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [loading, loadingOlder, showingCachedMessages, hasOlderMessages]);
+
+  const firstUnreadMessageId = unreadSince
+    ? messages.find(m => m.sender_id !== user?.id && new Date(m.created_at) > new Date(unreadSince))?.id
+    : undefined;
+
+  // Show each participant under the latest message they have read
+  const seenBy = participants.reduce((acc: Record<string, Participant[]>, participant) => {
+    if (participant.user_id === user?.id || !participant.last_read_at) return acc;
+
+    const lastReadAt = new Date(participant.last_read_at);
+    const lastSeen = [...messages].reverse().find(m => new Date(m.created_at) <= lastReadAt);
+    if (lastSeen) {
+      (acc[lastSeen.id] ||= []).push(participant);
+    }
+    return acc;
+  }, {});
+
+  const { data: replyCounts = {} } = useThreadReplyCounts(conversationId);
+  const { data: thread } = useThread(conversationId, threadMessageId);
+  const threadRoot = thread?.root ?? null;
+  // Replies still being sent only exist locally until they are stored
+  const threadReplies = thread
+    ? [
+      ...thread.replies,
+      ...messages.filter(m => (
+        m.status
+        && (m.parent_message_id === threadRoot?.id || thread.replies.some(r => r.id === m.parent_message_id))
+      )),
+    ]
+    : [];
+
+  const scrollToMessage = useCallback((messageId: string) => {
+    const element = scrollAreaRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      setHighlightedMessageId(current => (current === messageId ? null : current));
+    }, 2000);
+  }, []);
+
+  const showMessageUnavailable = useCallback(() => {
+    toast({
+      title: "Message not found",
+      description: "It may have been deleted or removed from this conversation.",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // The target is looked up before paging back to it, so a purged message or one
+  // from another conversation doesn't page through the whole history
+  const requestJump = useCallback(async (messageId: string) => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('id', messageId)
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    // Another conversation was opened while the lookup ran
+    if (activeConversationIdRef.current !== conversationId) return;
+
+    if (error || !data) {
+      showMessageUnavailable();
+      return;
+    }
+
+    setJumpTargetId(messageId);
+  }, [conversationId, showMessageUnavailable]);
+
+  const jumpToMessage = (messageId: string) => {
+    if (messages.some(m => m.id === messageId)) {
+      scrollToMessage(messageId);
+    } else {
+      requestJump(messageId);
+    }
+  };
+
+  // Permalinked messages are jumped to once, after they have been loaded
+  useEffect(() => {
+    setJumpTargetId(null);
+    if (focusMessageId) {
+      requestJump(focusMessageId);
+    }
+  }, [focusMessageId, requestJump]);
+
+  useEffect(() => {
+    if (!jumpTargetId || loading) return;
+    if (!messages.some(m => m.id === jumpTargetId)) {
+      // Page back through the history until the target is loaded
+      if (hasOlderMessages && !loadingOlder) {
+        loadOlderMessagesRef.current();
+      } else if (!hasOlderMessages && !showingCachedMessages) {
+        setJumpTargetId(null);
+        showMessageUnavailable();
       }
+      return;
     }
-  }, [messages]);
 
-  const getDisplayName = (message: Message) => {
-    return message.profiles?.display_name || message.profiles?.username || 'Unknown User';
+    setJumpTargetId(null);
+    scrollToMessage(jumpTargetId);
+  }, [
+    jumpTargetId,
+    loading,
+    loadingOlder,
+    hasOlderMessages,
+    showingCachedMessages,
+    messages,
+    scrollToMessage,
+    showMessageUnavailable,
+  ]);
+
+  const copyMessageLink = async (message: Message) => {
+    const url = `${window.location.origin}/c/${conversationId}/m/${message.id}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone in this conversation can use it to jump to the message.",
+      });
+    } catch (error) {
+      console.error('Error copying message link:', error);
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.content);
   };
 
-  const getInitials = (name: string) => {
-    return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditContent('');
+  };
+
+  useImperativeHandle(ref, () => ({
+    editLastOwnMessage: () => {
+      const lastOwn = [...messages].reverse().find(m => (
+        m.sender_id === user?.id && !m.is_deleted && !m.attachment_path && !m.status
+      ));
+      if (!lastOwn) return false;
+
+      startEditing(lastOwn);
+      return true;
+    },
+  }), [messages, user?.id]);
+
+  const saveEdit = async (message: Message) => {
+    const content = editContent.trim();
+
+    if (!content || content === message.content) {
+      cancelEditing();
+      return;
+    }
+
+    // edited_at and the revision history are maintained by a database trigger
+    const { error } = await supabase
+      .from('messages')
+      .update({ content })
+      .eq('id', message.id);
+
+    if (error) {
+      console.error('Error editing message:', error);
+      toast({
+        title: "Failed to edit message",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    cancelEditing();
+  };
+
+  const deleteMessage = async (message: Message) => {
+    // The content is blanked by a database trigger; the row stays as a tombstone
+    const { error } = await supabase
+      .from('messages')
+      .update({ is_deleted: true })
+      .eq('id', message.id);
+
+    if (error) {
+      console.error('Error deleting message:', error);
+      toast({
+        title: "Failed to delete message",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else if (message.attachment_path) {
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .remove([message.attachment_path]);
+
+      if (storageError) {
+        console.error('Error removing attachment:', storageError);
+      }
+    }
+
+    setDeletingMessage(null);
+  };
+
+  const getDisplayName = (message: Message) => {
+    return getSenderName(message.profiles);
   };
 
   if (loading) {
@@ -130,56 +454,268 @@ export const MessagesList = ({ conversationId }: MessagesListProps) => {
     );
   }
 
+  if (messagesError) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-2">
+        <p className="text-sm text-destructive">Failed to load messages</p>
+        <Button variant="outline" size="sm" onClick={() => refetchMessages()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <ScrollArea className="flex-1" ref={scrollAreaRef}>
       <div className="p-4 space-y-4">
+        {hasOlderMessages && (
+          <div ref={topSentinelRef} className="h-4 text-center text-xs text-muted-foreground">
+            {loadingOlder && 'Loading older messages...'}
+          </div>
+        )}
         {messages.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-muted-foreground">No messages yet. Start the conversation!</p>
           </div>
         ) : (
           messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex gap-3 ${
-                message.sender_id === user?.id ? 'flex-row-reverse' : ''
-              }`}
-            >
-              <Avatar className="h-8 w-8">
-                <AvatarFallback className="text-xs">
-                  {getInitials(getDisplayName(message))}
-                </AvatarFallback>
-              </Avatar>
+            <Fragment key={message.id}>
+              {message.id === firstUnreadMessageId && (
+                <div className="flex items-center gap-2 text-xs font-medium text-primary">
+                  <Separator className="flex-1 bg-primary/40" />
+                  New messages
+                  <Separator className="flex-1 bg-primary/40" />
+                </div>
+              )}
               <div
-                className={`max-w-[70%] ${
-                  message.sender_id === user?.id ? 'text-right' : ''
-                }`}
+                data-message-id={message.id}
+                className={`group flex gap-3 rounded-lg transition-colors ${
+                  message.sender_id === user?.id ? 'flex-row-reverse' : ''
+                } ${highlightedMessageId === message.id ? 'bg-accent' : ''}`}
               >
+                <div className="relative shrink-0">
+                  <UserAvatar
+                    name={getDisplayName(message)}
+                    avatarUrl={message.profiles?.avatar_url}
+                    className="h-8 w-8"
+                    fallbackClassName="text-xs"
+                  />
+                  <PresenceDot userId={message.sender_id} />
+                </div>
                 <div
-                  className={`rounded-lg px-3 py-2 ${
-                    message.sender_id === user?.id
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-muted'
+                  className={`max-w-[70%] ${
+                    message.sender_id === user?.id ? 'text-right' : ''
                   }`}
                 >
-                  <p className="text-sm">{message.content}</p>
-                </div>
-                <div className="flex items-center gap-2 mt-1">
-                  {message.sender_id !== user?.id && (
-                    <span className="text-xs text-muted-foreground">
-                      {getDisplayName(message)}
-                    </span>
+                  {message.parent && (
+                    <button
+                      type="button"
+                      className="mb-1 block w-full max-w-full rounded-md border-l-2 border-primary bg-muted/50 px-2 py-1 text-left text-xs text-muted-foreground hover:bg-muted"
+                      onClick={() => jumpToMessage(message.parent.id)}
+                    >
+                      <span className="font-medium">{getSenderName(message.parent.profiles)}</span>
+                      <span className="block truncate">{getMessageSnippet(message.parent)}</span>
+                    </button>
+                  )}
+                  {message.is_deleted ? (
+                    <div className="rounded-lg px-3 py-2 border border-dashed border-border">
+                      <p className="text-sm italic text-muted-foreground">This message was deleted</p>
+                    </div>
+                  ) : editingMessageId === message.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        saveEdit(message);
+                      }}
+                    >
+                      <Input
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') cancelEditing();
+                        }}
+                        autoFocus
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Enter to save · Esc to cancel
+                      </p>
+                    </form>
+                  ) : (
+                    <ContextMenu>
+                      {/* Messages that are not stored yet have nothing to reply to or edit */}
+                      <ContextMenuTrigger asChild disabled={!!message.status}>
+                        <div
+                          className={`rounded-lg px-3 py-2 ${
+                            message.sender_id === user?.id
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted'
+                          } ${message.status === 'pending' ? 'opacity-60' : ''} ${
+                            message.status === 'failed' ? 'opacity-60 ring-1 ring-destructive' : ''
+                          }`}
+                        >
+                          {message.attachment_path ? (
+                            <MessageAttachment
+                              path={message.attachment_path}
+                              name={message.attachment_name}
+                              size={message.attachment_size}
+                              mimeType={message.attachment_mime_type}
+                            />
+                          ) : (
+                            <p className="text-sm">{message.content}</p>
+                          )}
+                        </div>
+                      </ContextMenuTrigger>
+                      <ContextMenuContent>
+                        <ContextMenuItem onSelect={() => onReply(message)}>
+                          <Reply className="mr-2 h-4 w-4" />
+                          Reply
+                        </ContextMenuItem>
+                        <ContextMenuItem onSelect={() => setThreadMessageId(message.id)}>
+                          <MessagesSquare className="mr-2 h-4 w-4" />
+                          View thread
+                        </ContextMenuItem>
+                        <ContextMenuItem onSelect={() => copyMessageLink(message)}>
+                          <Link className="mr-2 h-4 w-4" />
+                          Copy link
+                        </ContextMenuItem>
+                        {message.sender_id === user?.id && !message.attachment_path && (
+                          <ContextMenuItem onSelect={() => startEditing(message)}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit message
+                          </ContextMenuItem>
+                        )}
+                        <ContextMenuItem
+                          disabled={!message.edited_at}
+                          onSelect={() => setHistoryMessage(message)}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          View edit history
+                        </ContextMenuItem>
+                        {message.sender_id === user?.id && (
+                          <ContextMenuItem
+                            className="text-destructive focus:text-destructive"
+                            onSelect={() => setDeletingMessage(message)}
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete for everyone
+                          </ContextMenuItem>
+                        )}
+                      </ContextMenuContent>
+                    </ContextMenu>
+                  )}
+                  <div className="flex items-center gap-2 mt-1">
+                    {message.sender_id !== user?.id && (
+                      <span className="text-xs text-muted-foreground">
+                        {getDisplayName(message)}
+                      </span>
+                    )}
+                    {message.status === 'pending' ? (
+                      <span className="text-xs text-muted-foreground">Sending...</span>
+                    ) : message.status === 'failed' ? (
+                      <span className="flex items-center gap-2 text-xs text-destructive">
+                        Failed to send
+                        <button
+                          type="button"
+                          className="font-medium hover:underline"
+                          onClick={() => retrySend(message)}
+                        >
+                          Retry
+                        </button>
+                        <button
+                          type="button"
+                          className="font-medium hover:underline"
+                          onClick={() => discardSend(message)}
+                        >
+                          Discard
+                        </button>
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                      </span>
+                    )}
+                    {message.edited_at && !message.is_deleted && (
+                      <button
+                        type="button"
+                        className="text-xs text-muted-foreground hover:underline"
+                        onClick={() => setHistoryMessage(message)}
+                      >
+                        (edited)
+                      </button>
+                    )}
+                  </div>
+                  <MessageReactions
+                    reactions={reactions.filter(r => r.message_id === message.id)}
+                    currentUserId={user?.id}
+                    onToggle={(emoji) => toggleReaction({ message, emoji })}
+                    className={message.sender_id === user?.id ? 'justify-end' : ''}
+                  />
+                  {seenBy[message.id] && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {participants.length === 2
+                        ? 'Seen'
+                        : `Seen by ${seenBy[message.id].map(p => getSenderName(p.profiles)).join(', ')}`}
+                    </p>
+                  )}
+                  {replyCounts[message.id] > 0 && (
+                    <button
+                      type="button"
+                      className="mt-1 text-xs font-medium text-primary hover:underline"
+                      onClick={() => setThreadMessageId(message.id)}
+                    >
+                      {replyCounts[message.id]} {replyCounts[message.id] === 1 ? 'reply' : 'replies'}
+                    </button>
                   )}
-                  <span className="text-xs text-muted-foreground">
-                    {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                    {message.edited_at && ' (edited)'}
-                  </span>
                 </div>
+                {!message.is_deleted && !message.status && (
+                  <div className="self-center opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                    <ReactionPicker onSelect={(emoji) => toggleReaction({ message, emoji })} />
+                  </div>
+                )}
               </div>
-            </div>
+            </Fragment>
           ))
         )}
       </div>
+
+      <ThreadPanel
+        conversationId={conversationId}
+        open={!!threadMessageId}
+        rootMessage={threadRoot}
+        replies={threadReplies}
+        onOpenChange={(open) => !open && setThreadMessageId(null)}
+        onJumpToMessage={(messageId) => {
+          setThreadMessageId(null);
+          jumpToMessage(messageId);
+        }}
+      />
+
+      <MessageRevisionsDialog
+        message={historyMessage}
+        onOpenChange={(open) => !open && setHistoryMessage(null)}
+      />
+
+      <AlertDialog
+        open={!!deletingMessage}
+        onOpenChange={(open) => !open && setDeletingMessage(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the message for everyone in the conversation. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingMessage && deleteMessage(deletingMessage)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </ScrollArea>
   );
-};
\ No newline at end of file
+});
+
+MessagesList.displayName = 'MessagesList';
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { Profile, useProfiles } from '@/hooks/useProfiles';
+import { useCreateGroupConversation, useStartDirectMessage } from '@/hooks/useConversations';
 import {
   Dialog,
   DialogContent,
@@ -10,60 +11,58 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
-
-interface User {
-  id: string;
-  username: string;
-  display_name: string | null;
-}
+import { usePresence } from '@/hooks/usePresence';
+import { formatDistanceToNow } from 'date-fns';
+import { PresenceDot } from './PresenceDot';
+import { UserAvatar } from './UserAvatar';
 
 interface NewConversationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onConversationCreated: (conversationId: string) => void;
+  // Tab shown when the dialog opens
+  defaultMode?: 'dm' | 'group';
 }
 
 export const NewConversationDialog = ({
   open,
   onOpenChange,
   onConversationCreated,
+  defaultMode = 'dm',
 }: NewConversationDialogProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [users, setUsers] = useState<User[]>([]);
+  const { getStatus } = usePresence();
+  const { data: profiles = [], isLoading, error: profilesError, refetch } = useProfiles({ enabled: open });
+  const { mutateAsync: startDirectMessage } = useStartDirectMessage();
+  const { mutateAsync: createGroup } = useCreateGroupConversation();
   const [searchTerm, setSearchTerm] = useState('');
-  const [loading, setLoading] = useState(false);
   const [creating, setCreating] = useState(false);
+  const [mode, setMode] = useState<'dm' | 'group'>('dm');
+  const [groupName, setGroupName] = useState('');
+  const [groupDescription, setGroupDescription] = useState('');
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
 
   useEffect(() => {
-    if (!open) return;
-
-    const fetchUsers = async () => {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, username, display_name')
-        .neq('id', user?.id)
-        .order('display_name');
-
-      if (error) {
-        console.error('Error fetching users:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load users",
-          variant: "destructive",
-        });
-      } else {
-        setUsers(data || []);
-      }
-      setLoading(false);
-    };
+    if (open) {
+      setMode(defaultMode);
+      return;
+    }
 
-    fetchUsers();
-  }, [open, user?.id, toast]);
+    // Reset the group form whenever the dialog closes
+    setSearchTerm('');
+    setGroupName('');
+    setGroupDescription('');
+    setSelectedUserIds([]);
+  }, [open, defaultMode]);
+
+  const users = profiles.filter(u => u.id !== user?.id);
 
   const filteredUsers = users.filter(u => 
     (u.display_name?.toLowerCase().includes(searchTerm.toLowerCase())) ||
@@ -76,64 +75,59 @@ export const NewConversationDialog = ({
     setCreating(true);
 
     try {
-      // Check if conversation already exists
-      const { data: existingConv } = await supabase
-        .from('conversation_participants')
-        .select('conversation_id')
-        .in('user_id', [user.id, otherUserId]);
-
-      if (existingConv && existingConv.length >= 2) {
-        // Find conversation that has both users
-        const conversationCounts = existingConv.reduce((acc: Record<string, number>, item) => {
-          acc[item.conversation_id] = (acc[item.conversation_id] || 0) + 1;
-          return acc;
-        }, {});
-
-        const existingConversationId = Object.keys(conversationCounts).find(
-          id => conversationCounts[id] === 2
-        );
-
-        if (existingConversationId) {
-          onConversationCreated(existingConversationId);
-          onOpenChange(false);
-          setCreating(false);
-          return;
-        }
+      const { conversationId, created } = await startDirectMessage(otherUserId);
+
+      onConversationCreated(conversationId);
+      onOpenChange(false);
+      if (created) {
+        toast({
+          title: "Conversation created",
+          description: "You can now start chatting!",
+        });
       }
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+      toast({
+        title: "Failed to create conversation",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+
+    setCreating(false);
+  };
+
+  const toggleSelectedUser = (userId: string) => {
+    setSelectedUserIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
 
-      // Create new conversation
-      const { data: conversation, error: convError } = await supabase
-        .from('conversations')
-        .insert({
-          type: 'dm',
-          created_by: user.id,
-        })
-        .select()
-        .single();
-
-      if (convError) throw convError;
-
-      // Add participants
-      const { error: participantsError } = await supabase
-        .from('conversation_participants')
-        .insert([
-          { conversation_id: conversation.id, user_id: user.id },
-          { conversation_id: conversation.id, user_id: otherUserId },
-        ]);
-
-      if (participantsError) throw participantsError;
-
-      onConversationCreated(conversation.id);
+  const createGroupConversation = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user || creating || !groupName.trim() || selectedUserIds.length === 0) return;
+
+    setCreating(true);
+
+    try {
+      const conversationId = await createGroup({
+        name: groupName.trim(),
+        description: groupDescription.trim(),
+        memberIds: selectedUserIds,
+      });
+
+      onConversationCreated(conversationId);
       onOpenChange(false);
       toast({
-        title: "Conversation created",
-        description: "You can now start chatting!",
+        title: "Group created",
+        description: `${groupName.trim()} is ready for chatting.`,
       });
-    } catch (error: any) {
-      console.error('Error creating conversation:', error);
+    } catch (error) {
+      console.error('Error creating group:', error);
       toast({
-        title: "Failed to create conversation",
-        description: error.message,
+        title: "Failed to create group",
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
@@ -141,12 +135,16 @@ export const NewConversationDialog = ({
     setCreating(false);
   };
 
-  const getDisplayName = (user: User) => {
+  const getDisplayName = (user: Profile) => {
     return user.display_name || user.username;
   };
 
-  const getInitials = (name: string) => {
-    return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+  const getPresenceLabel = (u: Profile) => {
+    const status = getStatus(u.id);
+    if (status === 'online') return 'Online';
+    if (status === 'away') return 'Away';
+    if (!u.last_seen) return 'Offline';
+    return `Last seen ${formatDistanceToNow(new Date(u.last_seen), { addSuffix: true })}`;
   };
 
   return (
@@ -156,49 +154,183 @@ export const NewConversationDialog = ({
           <DialogTitle>Start a new conversation</DialogTitle>
         </DialogHeader>
         
-        <div className="space-y-4">
-          <div>
-            <Label htmlFor="search">Search users</Label>
-            <Input
-              id="search"
-              placeholder="Search by name or username..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
-          </div>
-
-          <ScrollArea className="h-64">
-            {loading ? (
-              <div className="text-center py-4">
-                <p className="text-muted-foreground">Loading users...</p>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'dm' | 'group')}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="dm">Direct message</TabsTrigger>
+            <TabsTrigger value="group">Group</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="dm" className="space-y-4">
+            <div>
+              <Label htmlFor="search">Search users</Label>
+              <Input
+                id="search"
+                placeholder="Search by name or username..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+
+            <ScrollArea className="h-64">
+              {isLoading ? (
+                <div className="text-center py-4">
+                  <p className="text-muted-foreground">Loading users...</p>
+                </div>
+              ) : profilesError ? (
+                <div className="text-center py-4">
+                  <p className="text-sm text-destructive">Failed to load users</p>
+                  <Button type="button" variant="link" size="sm" onClick={() => refetch()}>
+                    Try again
+                  </Button>
+                </div>
+              ) : filteredUsers.length === 0 ? (
+                <div className="text-center py-4">
+                  <p className="text-muted-foreground">No users found</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {filteredUsers.map((u) => (
+                    <div
+                      key={u.id}
+                      className="flex items-center gap-3 p-2 rounded-lg hover:bg-accent cursor-pointer"
+                      onClick={() => createConversation(u.id)}
+                    >
+                      <div className="relative shrink-0">
+                        <UserAvatar
+                          name={getDisplayName(u)}
+                          avatarUrl={u.avatar_url}
+                          className="h-8 w-8"
+                          fallbackClassName="text-xs"
+                        />
+                        <PresenceDot userId={u.id} />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium">{getDisplayName(u)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          @{u.username} · {getPresenceLabel(u)}
+                        </p>
+                        {u.status_text && (
+                          <p className="text-xs text-muted-foreground truncate">{u.status_text}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="group">
+            <form onSubmit={createGroupConversation} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="group-name">Group name</Label>
+                <Input
+                  id="group-name"
+                  placeholder="e.g. Project Apollo"
+                  value={groupName}
+                  onChange={(e) => setGroupName(e.target.value)}
+                  required
+                />
               </div>
-            ) : filteredUsers.length === 0 ? (
-              <div className="text-center py-4">
-                <p className="text-muted-foreground">No users found</p>
+              <div className="space-y-2">
+                <Label htmlFor="group-description">Description (optional)</Label>
+                <Textarea
+                  id="group-description"
+                  placeholder="What is this group about?"
+                  value={groupDescription}
+                  onChange={(e) => setGroupDescription(e.target.value)}
+                  rows={2}
+                />
               </div>
-            ) : (
               <div className="space-y-2">
-                {filteredUsers.map((u) => (
-                  <div
-                    key={u.id}
-                    className="flex items-center gap-3 p-2 rounded-lg hover:bg-accent cursor-pointer"
-                    onClick={() => createConversation(u.id)}
-                  >
-                    <Avatar className="h-8 w-8">
-                      <AvatarFallback className="text-xs">
-                        {getInitials(getDisplayName(u))}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium">{getDisplayName(u)}</p>
-                      <p className="text-xs text-muted-foreground">@{u.username}</p>
-                    </div>
+                <Label htmlFor="group-search">Members</Label>
+                <Input
+                  id="group-search"
+                  placeholder="Search by name or username..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+                {selectedUserIds.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {users
+                      .filter(u => selectedUserIds.includes(u.id))
+                      .map(u => (
+                        <Badge
+                          key={u.id}
+                          variant="secondary"
+                          className="cursor-pointer"
+                          onClick={() => toggleSelectedUser(u.id)}
+                        >
+                          {getDisplayName(u)} ×
+                        </Badge>
+                      ))}
                   </div>
-                ))}
+                )}
               </div>
-            )}
-          </ScrollArea>
-        </div>
+
+              <ScrollArea className="h-48">
+                {isLoading ? (
+                  <div className="text-center py-4">
+                    <p className="text-muted-foreground">Loading users...</p>
+                  </div>
+                ) : profilesError ? (
+                  <div className="text-center py-4">
+                    <p className="text-sm text-destructive">Failed to load users</p>
+                    <Button type="button" variant="link" size="sm" onClick={() => refetch()}>
+                      Try again
+                    </Button>
+                  </div>
+                ) : filteredUsers.length === 0 ? (
+                  <div className="text-center py-4">
+                    <p className="text-muted-foreground">No users found</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {filteredUsers.map((u) => (
+                      <label
+                        key={u.id}
+                        className="flex items-center gap-3 p-2 rounded-lg hover:bg-accent cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={selectedUserIds.includes(u.id)}
+                          onCheckedChange={() => toggleSelectedUser(u.id)}
+                        />
+                        <div className="relative shrink-0">
+                          <UserAvatar
+                            name={getDisplayName(u)}
+                            avatarUrl={u.avatar_url}
+                            className="h-8 w-8"
+                            fallbackClassName="text-xs"
+                          />
+                          <PresenceDot userId={u.id} />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium">{getDisplayName(u)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            @{u.username} · {getPresenceLabel(u)}
+                          </p>
+                          {u.status_text && (
+                            <p className="text-xs text-muted-foreground truncate">{u.status_text}</p>
+                          )}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={creating || !groupName.trim() || selectedUserIds.length === 0}
+              >
+                {creating
+                  ? "Creating group..."
+                  : `Create group${selectedUserIds.length ? ` (${selectedUserIds.length + 1} members)` : ''}`}
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
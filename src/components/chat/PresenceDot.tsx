@@ -0,0 +1,37 @@
+import { usePresence } from '@/hooks/usePresence';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES = {
+  online: 'bg-green-500',
+  away: 'bg-yellow-500',
+  offline: 'bg-muted-foreground/50',
+};
+
+const STATUS_LABELS = {
+  online: 'Online',
+  away: 'Away',
+  offline: 'Offline',
+};
+
+interface PresenceDotProps {
+  userId: string;
+  className?: string;
+}
+
+// Place inside a `relative` wrapper around an Avatar; Avatar itself clips overflow
+export const PresenceDot = ({ userId, className }: PresenceDotProps) => {
+  const { getStatus } = usePresence();
+  const status = getStatus(userId);
+
+  return (
+    <span
+      className={cn(
+        "absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full ring-2 ring-background",
+        STATUS_STYLES[status],
+        className
+      )}
+      title={STATUS_LABELS[status]}
+      aria-label={STATUS_LABELS[status]}
+    />
+  );
+};
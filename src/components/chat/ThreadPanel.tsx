@@ -0,0 +1,104 @@
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { formatDistanceToNow } from 'date-fns';
+import { Message, getMessageSnippet, getSenderName } from '@/lib/messages';
+import { MessageAttachment } from './MessageAttachment';
+import { MessageInput } from './MessageInput';
+import { UserAvatar } from './UserAvatar';
+
+interface ThreadPanelProps {
+  conversationId: string;
+  open: boolean;
+  // Null while the thread is loading
+  rootMessage: Message | null;
+  replies: Message[];
+  onOpenChange: (open: boolean) => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+export const ThreadPanel = ({
+  conversationId,
+  open,
+  rootMessage,
+  replies,
+  onOpenChange,
+  onJumpToMessage,
+}: ThreadPanelProps) => {
+  const { user } = useAuth();
+
+  const renderMessage = (message: Message) => (
+    <div
+      key={message.id}
+      className="flex gap-3 rounded-lg p-2 hover:bg-accent cursor-pointer"
+      onClick={() => onJumpToMessage(message.id)}
+    >
+      <UserAvatar
+        name={getSenderName(message.profiles)}
+        avatarUrl={message.profiles?.avatar_url}
+        className="h-8 w-8"
+        fallbackClassName="text-xs"
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-medium">
+            {message.sender_id === user?.id ? 'You' : getSenderName(message.profiles)}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+          </span>
+        </div>
+        {message.parent && message.parent.id !== rootMessage?.id && (
+          <p className="truncate text-xs text-muted-foreground">
+            ↳ {getSenderName(message.parent.profiles)}: {getMessageSnippet(message.parent)}
+          </p>
+        )}
+        {message.attachment_path && !message.is_deleted ? (
+          <MessageAttachment
+            path={message.attachment_path}
+            name={message.attachment_name}
+            size={message.attachment_size}
+            mimeType={message.attachment_mime_type}
+          />
+        ) : (
+          <p className={`text-sm ${message.is_deleted ? 'italic text-muted-foreground' : ''}`}>
+            {message.is_deleted ? 'This message was deleted' : message.content}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-0 p-0 sm:max-w-md">
+        <SheetHeader className="p-4">
+          <SheetTitle>Thread</SheetTitle>
+          <SheetDescription>
+            {rootMessage
+              ? `${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`
+              : 'Loading...'}
+          </SheetDescription>
+        </SheetHeader>
+        <Separator />
+        <ScrollArea className="flex-1">
+          <div className="space-y-1 p-2">
+            {rootMessage && renderMessage(rootMessage)}
+            {replies.length > 0 && <Separator className="my-2" />}
+            {replies.map(renderMessage)}
+          </div>
+        </ScrollArea>
+        {rootMessage && (
+          <MessageInput conversationId={conversationId} replyTo={rootMessage} />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,28 @@
+import { TypingUser } from '@/hooks/useTypingIndicator';
+
+interface TypingIndicatorProps {
+  typingUsers: TypingUser[];
+}
+
+export const TypingIndicator = ({ typingUsers }: TypingIndicatorProps) => {
+  const getLabel = () => {
+    if (typingUsers.length === 1) return `${typingUsers[0].name} is typing…`;
+    if (typingUsers.length === 2) return `${typingUsers[0].name} and ${typingUsers[1].name} are typing…`;
+    return `${typingUsers.length} people are typing…`;
+  };
+
+  return (
+    <div className="h-6 px-4 text-xs text-muted-foreground" aria-live="polite">
+      {typingUsers.length > 0 && (
+        <span className="flex items-center gap-1">
+          <span className="flex gap-0.5">
+            <span className="h-1 w-1 animate-bounce rounded-full bg-muted-foreground [animation-delay:-0.3s]" />
+            <span className="h-1 w-1 animate-bounce rounded-full bg-muted-foreground [animation-delay:-0.15s]" />
+            <span className="h-1 w-1 animate-bounce rounded-full bg-muted-foreground" />
+          </span>
+          {getLabel()}
+        </span>
+      )}
+    </div>
+  );
+};
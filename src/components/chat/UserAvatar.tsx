@@ -0,0 +1,61 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { getInitials } from '@/lib/avatars';
+import { cn } from '@/lib/utils';
+
+interface UserAvatarProps {
+  name: string;
+  avatarUrl?: string | null;
+  className?: string;
+  fallbackClassName?: string;
+}
+
+// Falls back to initials while the image loads or when it fails to load
+export const UserAvatar = ({ name, avatarUrl, className, fallbackClassName }: UserAvatarProps) => (
+  <Avatar className={className}>
+    {avatarUrl && <AvatarImage src={avatarUrl} alt={name} className="object-cover" />}
+    <AvatarFallback className={fallbackClassName}>{getInitials(name)}</AvatarFallback>
+  </Avatar>
+);
+
+interface GroupAvatarProps {
+  name: string;
+  members: { name: string; avatarUrl?: string | null }[];
+  className?: string;
+}
+
+/**
+ * Composes up to four member avatars into a single circle. Groups with fewer
+ * than two other members fall back to the group's initials.
+ */
+export const GroupAvatar = ({ name, members, className }: GroupAvatarProps) => {
+  const shown = members.slice(0, 4);
+
+  if (shown.length < 2) {
+    return <UserAvatar name={name} className={className} />;
+  }
+
+  return (
+    <div
+      className={cn(
+        "relative grid h-10 w-10 shrink-0 grid-cols-2 grid-rows-2 gap-px overflow-hidden rounded-full bg-background",
+        className
+      )}
+      aria-label={name}
+    >
+      {shown.map((member, index) => (
+        <UserAvatar
+          key={index}
+          name={member.name}
+          avatarUrl={member.avatarUrl}
+          className={cn(
+            "h-full w-full rounded-none",
+            // Two or three members: the first avatar spans the full left column
+            shown.length < 4 && index === 0 && "row-span-2",
+            shown.length === 2 && "row-span-2"
+          )}
+          fallbackClassName="rounded-none text-[0.5rem]"
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { AVATAR_SIZE, canvasToBlob, loadImage } from '@/lib/avatars';
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  onOpenChange: (open: boolean) => void;
+  onCropped: (image: Blob) => Promise<void>;
+}
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+export const AvatarCropDialog = ({ file, onOpenChange, onCropped }: AvatarCropDialogProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; offset: Offset } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setImage(null);
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    if (!file) return;
+
+    loadImage(file)
+      .then(setImage)
+      .catch(error => console.error('Error loading avatar image:', error));
+  }, [file]);
+
+  // Scale that makes the image just cover the square crop area
+  const baseScale = image ? Math.max(AVATAR_SIZE / image.width, AVATAR_SIZE / image.height) : 1;
+  const scale = baseScale * zoom;
+
+  // Keep the image covering the crop area so no empty edges are exported
+  const clampOffset = (next: Offset, atScale = scale): Offset => {
+    if (!image) return next;
+    const maxX = Math.max(0, (image.width * atScale - AVATAR_SIZE) / 2);
+    const maxY = Math.max(0, (image.height * atScale - AVATAR_SIZE) / 2);
+    return {
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !image) return;
+
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    context.clearRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    context.drawImage(
+      image,
+      (AVATAR_SIZE - width) / 2 + offset.x,
+      (AVATAR_SIZE - height) / 2 + offset.y,
+      width,
+      height
+    );
+  }, [image, scale, offset]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    setOffset(clampOffset({
+      x: drag.offset.x + e.clientX - drag.pointerX,
+      y: drag.offset.y + e.clientY - drag.pointerY,
+    }));
+  };
+
+  const handleZoomChange = ([value]: number[]) => {
+    setZoom(value);
+    setOffset(current => clampOffset(current, baseScale * value));
+  };
+
+  const save = async () => {
+    if (!canvasRef.current || saving) return;
+
+    setSaving(true);
+    try {
+      await onCropped(await canvasToBlob(canvasRef.current));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving avatar:', error);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Crop your avatar</DialogTitle>
+          <DialogDescription>Drag to reposition and use the slider to zoom.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <canvas
+            ref={canvasRef}
+            width={AVATAR_SIZE}
+            height={AVATAR_SIZE}
+            className="h-64 w-64 cursor-move touch-none rounded-full bg-muted"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => (dragRef.current = null)}
+            onPointerCancel={() => (dragRef.current = null)}
+          />
+          <Slider
+            value={[zoom]}
+            min={1}
+            max={3}
+            step={0.01}
+            onValueChange={handleZoomChange}
+            aria-label="Zoom"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={!image || saving}>
+            {saving ? "Uploading..." : "Save avatar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,103 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { newPasswordSchema } from '@/lib/passwords';
+
+const changePasswordSchema = z
+  .object({ current_password: z.string().min(1, 'Enter your current password') })
+  .and(newPasswordSchema)
+  .refine(values => values.password !== values.current_password, {
+    message: 'Choose a password different from your current one',
+    path: ['password'],
+  });
+
+type ChangePasswordValues = z.infer<typeof changePasswordSchema>;
+
+// Returned when the current password doesn't match
+const INVALID_CREDENTIALS = 'invalid_credentials';
+
+export const ChangePasswordForm = () => {
+  const { updatePassword } = useAuth();
+
+  const form = useForm<ChangePasswordValues>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      current_password: '',
+      password: '',
+      confirm_password: '',
+    },
+  });
+
+  const onSubmit = async (values: ChangePasswordValues) => {
+    const { error } = await updatePassword(values.password, values.current_password);
+
+    if (!error) {
+      form.reset();
+    } else if (error.code === INVALID_CREDENTIALS) {
+      form.setError('current_password', { message: 'Your current password is incorrect' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="current_password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirm_password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Changing..." : "Change password"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
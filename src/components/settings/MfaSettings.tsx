@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Factor } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MfaEnrollment } from '@/components/auth/MfaEnrollment';
+import { RecoveryCodes } from '@/components/auth/RecoveryCodes';
+import { KeyRound, ShieldCheck, Trash2 } from 'lucide-react';
+
+export const MfaSettings = () => {
+  const { user, mfaFactors, regenerateRecoveryCodes, unenrollMfa } = useAuth();
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [removingFactor, setRemovingFactor] = useState<Factor | null>(null);
+  const [showEnrollment, setShowEnrollment] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase.rpc('count_mfa_recovery_codes').then(({ data, error }) => {
+      if (error) {
+        console.error('Error counting recovery codes:', error);
+        return;
+      }
+      setRemainingCodes(data);
+    });
+  }, [user, newCodes]);
+
+  const generateCodes = async () => {
+    setGenerating(true);
+    const { recoveryCodes } = await regenerateRecoveryCodes();
+    setNewCodes(recoveryCodes);
+    setGenerating(false);
+  };
+
+  const removeFactor = async (factor: Factor) => {
+    await unenrollMfa(factor.id);
+    setRemovingFactor(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {mfaFactors.length === 0 ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">No authenticator app is set up.</p>
+          <Button variant="outline" size="sm" onClick={() => setShowEnrollment(true)}>
+            Set up
+          </Button>
+        </div>
+      ) : (
+        mfaFactors.map(factor => (
+          <div key={factor.id} className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              <div>
+                <p className="text-sm font-medium">{factor.friendly_name || 'Authenticator app'}</p>
+                <p className="text-xs text-muted-foreground">
+                  Added {format(new Date(factor.created_at), 'MMM d, yyyy')}
+                </p>
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setRemovingFactor(factor)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Remove
+            </Button>
+          </div>
+        ))
+      )}
+
+      {mfaFactors.length > 0 && (
+        <div className="flex items-center justify-between gap-4 border-t pt-4">
+          <div className="flex items-center gap-3">
+            <KeyRound className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <p className="text-sm font-medium">Recovery codes</p>
+              <p className="text-xs text-muted-foreground">
+                {remainingCodes === null
+                  ? 'Use these if you lose your device'
+                  : `${remainingCodes} unused ${remainingCodes === 1 ? 'code' : 'codes'} left`}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={generateCodes} disabled={generating}>
+            {generating ? "Generating..." : "Generate new codes"}
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!newCodes} onOpenChange={(open) => !open && setNewCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New recovery codes</DialogTitle>
+            <DialogDescription>Your previous recovery codes no longer work.</DialogDescription>
+          </DialogHeader>
+          {newCodes && <RecoveryCodes codes={newCodes} />}
+          <DialogFooter>
+            <Button onClick={() => setNewCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showEnrollment} onOpenChange={setShowEnrollment}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set up two-factor authentication</DialogTitle>
+            <DialogDescription>Add an authenticator app to your account.</DialogDescription>
+          </DialogHeader>
+          {showEnrollment && <MfaEnrollment onComplete={() => setShowEnrollment(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={!!removingFactor}
+        onOpenChange={(open) => !open && setRemovingFactor(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove authenticator?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You'll need to set up a new authenticator, with new recovery codes, before you
+              can keep using TalkSync.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => removingFactor && removeFactor(removingFactor)}>
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+import { useEffect, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile, useUpdateProfile } from '@/hooks/useProfiles';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { UserAvatar } from '@/components/chat/UserAvatar';
+import { removeAvatar, uploadAvatar } from '@/lib/avatars';
+import { usernameSchema } from '@/lib/usernames';
+import { Upload, Trash2 } from 'lucide-react';
+import { AvatarCropDialog } from './AvatarCropDialog';
+
+const profileSchema = z.object({
+  display_name: z
+    .string()
+    .trim()
+    .min(1, 'Display name is required')
+    .max(50, 'Display name must be at most 50 characters'),
+  username: usernameSchema,
+  status_text: z.string().trim().max(100, 'Status must be at most 100 characters'),
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+// Postgres unique_violation, raised by the profiles.username UNIQUE constraint
+const UNIQUE_VIOLATION = '23505';
+
+export const ProfileSettingsForm = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: profile, isLoading: loading, error: profileError } = useProfile(user?.id);
+  const { mutateAsync: updateProfile } = useUpdateProfile();
+  const avatarUrl = profile?.avatar_url ?? null;
+  // Set once, so a background refetch doesn't overwrite edits in progress
+  const formLoadedRef = useRef(false);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [removingAvatar, setRemovingAvatar] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      display_name: '',
+      username: '',
+      status_text: '',
+    },
+  });
+
+  useEffect(() => {
+    if (!profile || formLoadedRef.current) return;
+
+    formLoadedRef.current = true;
+    form.reset({
+      display_name: profile.display_name ?? '',
+      username: profile.username,
+      status_text: profile.status_text ?? '',
+    });
+  }, [profile, form]);
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    if (!user) return;
+
+    // Check up front for a friendlier error; the UNIQUE constraint still guards races
+    const { data: existing } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('username', values.username)
+      .neq('id', user.id)
+      .maybeSingle();
+
+    if (existing) {
+      form.setError('username', { message: 'This username is already taken' });
+      return;
+    }
+
+    try {
+      await updateProfile({
+        display_name: values.display_name,
+        username: values.username,
+        status_text: values.status_text || null,
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        form.setError('username', { message: 'This username is already taken' });
+        return;
+      }
+
+      console.error('Error updating profile:', error);
+      toast({
+        title: "Failed to update profile",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    form.reset(values);
+    toast({
+      title: "Profile updated",
+      description: "Your changes have been saved.",
+    });
+  };
+
+  // Avatars are saved as soon as they are cropped, independently of the form
+  const saveAvatar = async (image: Blob) => {
+    if (!user) return;
+
+    try {
+      const url = await uploadAvatar(user.id, image);
+      try {
+        await updateProfile({ avatar_url: url });
+      } catch (error) {
+        // The profile still points at the old avatar, so only the new upload goes
+        await removeAvatar(url);
+        throw error;
+      }
+
+      if (avatarUrl) {
+        await removeAvatar(avatarUrl);
+      }
+      toast({
+        title: "Avatar updated",
+        description: "Your new avatar is visible to everyone.",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to upload avatar",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      // Keep the crop dialog open so the user can try again
+      throw error;
+    }
+  };
+
+  const deleteAvatar = async () => {
+    if (!user || !avatarUrl) return;
+
+    setRemovingAvatar(true);
+    try {
+      await updateProfile({ avatar_url: null });
+      await removeAvatar(avatarUrl);
+    } catch (error) {
+      console.error('Error removing avatar:', error);
+      toast({
+        title: "Failed to remove avatar",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+    setRemovingAvatar(false);
+  };
+
+  const handleAvatarFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = '';
+    if (file) {
+      setAvatarFile(file);
+    }
+  };
+
+  const displayName = form.watch('display_name');
+
+  if (loading) {
+    return <p className="text-muted-foreground">Loading profile...</p>;
+  }
+
+  if (profileError) {
+    return <p className="text-sm text-destructive">Failed to load your profile</p>;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="flex items-center gap-4">
+          <UserAvatar
+            name={displayName || '?'}
+            avatarUrl={avatarUrl}
+            className="h-16 w-16"
+            fallbackClassName="text-lg"
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Change avatar
+            </Button>
+            {avatarUrl && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={deleteAvatar}
+                disabled={removingAvatar}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleAvatarFileChange}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="display_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Display name</FormLabel>
+              <FormControl>
+                <Input placeholder="Your name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input placeholder="username" {...field} />
+              </FormControl>
+              <FormDescription>Others can find you by @username.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="status_text"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Status</FormLabel>
+              <FormControl>
+                <Input placeholder="What are you up to?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={form.formState.isSubmitting || !form.formState.isDirty}>
+          {form.formState.isSubmitting ? "Saving..." : "Save changes"}
+        </Button>
+      </form>
+      <AvatarCropDialog
+        file={avatarFile}
+        onOpenChange={(open) => !open && setAvatarFile(null)}
+        onCropped={saveAvatar}
+      />
+    </Form>
+  );
+};
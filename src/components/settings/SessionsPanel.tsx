@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { AuthSession, useRevokeSession, useSessions } from '@/hooks/useSessions';
+import { describeUserAgent } from '@/lib/sessions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Monitor, Smartphone } from 'lucide-react';
+
+export const SessionsPanel = () => {
+  const { signOut } = useAuth();
+  const { toast } = useToast();
+  const { data: sessions = [], isLoading, error, refetch } = useSessions();
+  const { mutateAsync: revokeSession, isPending: revoking } = useRevokeSession();
+  const [confirmScope, setConfirmScope] = useState<'others' | 'global' | null>(null);
+
+  const signOutSession = async (session: AuthSession) => {
+    try {
+      await revokeSession(session.id);
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast({
+        title: "Failed to sign out session",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const signOutScope = async (scope: 'others' | 'global') => {
+    setConfirmScope(null);
+    const { error } = await signOut({ scope });
+    if (!error && scope === 'others') {
+      refetch();
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading sessions...</p>;
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-destructive">Failed to load your sessions.</p>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some(session => !session.is_current);
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y">
+        {sessions.map(session => {
+          const device = describeUserAgent(session.user_agent);
+          const DeviceIcon = device.mobile ? Smartphone : Monitor;
+
+          return (
+            <li key={session.id} className="flex items-center justify-between gap-4 py-3 first:pt-0">
+              <div className="flex min-w-0 items-center gap-3">
+                <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 text-sm font-medium">
+                    {device.browser} on {device.os}
+                    {session.is_current && <Badge variant="secondary">This device</Badge>}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {session.ip && `${session.ip} · `}
+                    {session.is_current
+                      ? 'Active now'
+                      : `Last active ${formatDistanceToNow(new Date(session.last_active_at), { addSuffix: true })}`}
+                  </p>
+                </div>
+              </div>
+              {!session.is_current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => signOutSession(session)}
+                  disabled={revoking}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-wrap gap-2 border-t pt-4">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setConfirmScope('others')}
+          disabled={!hasOtherSessions}
+        >
+          Sign out other sessions
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setConfirmScope('global')}>
+          Sign out everywhere
+        </Button>
+      </div>
+
+      <AlertDialog
+        open={!!confirmScope}
+        onOpenChange={(open) => !open && setConfirmScope(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmScope === 'global' ? 'Sign out everywhere?' : 'Sign out other sessions?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmScope === 'global'
+                ? 'Every session, including this one, will be signed out.'
+                : "Every other device and browser will be signed out. You'll stay signed in here."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmScope && signOutScope(confirmScope)}>
+              Sign out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,29 +1,113 @@
-import { createContext, useContext, useEffect, useState } from 'react';
-import { User, Session } from '@supabase/supabase-js';
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import {
+  AuthError,
+  AuthenticatorAssuranceLevels,
+  Factor,
+  User,
+  Session,
+} from '@supabase/supabase-js';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { clearCachedQueries } from '@/lib/localCache';
+import { clearQueuedMessages } from '@/lib/outbox';
+import { isRecentLocalSignOut, markLocalSignOut } from '@/lib/sessions';
+
+export interface AssuranceLevel {
+  current: AuthenticatorAssuranceLevels | null;
+  next: AuthenticatorAssuranceLevels | null;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // Data URI of an SVG QR code encoding the otpauth:// URI
+  qrCode: string;
+  secret: string;
+}
+
+export type SignOutScope = 'global' | 'local' | 'others';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
-  signUp: (email: string, password: string, displayName?: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, displayName?: string, username?: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signOut: () => Promise<void>;
+  // 'local' (the default) ends this session, 'others' every other one and 'global' all of them
+  signOut: (options?: { scope?: SignOutScope }) => Promise<{ error: AuthError | null }>;
+  // True when this session was ended without signing out here, e.g. from another device
+  sessionRevoked: boolean;
+  signInWithOtp: (email: string) => Promise<{ error: AuthError | null }>;
+  verifyOtp: (email: string, token: string) => Promise<{ error: AuthError | null }>;
+  resetPasswordForEmail: (email: string) => Promise<{ error: AuthError | null }>;
+  updatePassword: (password: string, currentPassword?: string) => Promise<{ error: AuthError | null }>;
+  // True while the session came from a password recovery link
+  passwordRecovery: boolean;
+  // Null until the session's MFA level is known; chat requires current === 'aal2'
+  assuranceLevel: AssuranceLevel | null;
+  // Verified TOTP factors of the current user
+  mfaFactors: Factor[];
+  enrollMfa: () => Promise<{ data: TotpEnrollment | null; error: AuthError | null }>;
+  verifyMfaEnrollment: (factorId: string, code: string) => Promise<{ recoveryCodes: string[] | null; error: AuthError | null }>;
+  challengeMfa: (code: string) => Promise<{ error: AuthError | null }>;
+  redeemRecoveryCode: (code: string) => Promise<{ error: Error | null }>;
+  regenerateRecoveryCodes: () => Promise<{ recoveryCodes: string[] | null; error: Error | null }>;
+  unenrollMfa: (factorId: string) => Promise<{ error: AuthError | null }>;
 }
 
+// Confirmation and magic links land on the app root, where the session is picked up from the URL
+const getEmailRedirectUrl = () => `${window.location.origin}/`;
+
+// Recovery links land with the tokens in the hash; the PASSWORD_RECOVERY event only
+// fires after the session is restored, so read the hash up front to avoid a flash
+const isRecoveryRedirect = () =>
+  new URLSearchParams(window.location.hash.slice(1)).get('type') === 'recovery';
+
+// GoTrue has returned the QR code both with and without the data URI prefix
+const toQrCodeSrc = (qrCode: string) =>
+  qrCode.startsWith('data:') ? qrCode : `data:image/svg+xml;utf-8,${qrCode}`;
+
+// Cached chats and unsent messages belong to the signed-out user, in memory and on this device
+const clearUserData = (queryClient: QueryClient) => {
+  queryClient.clear();
+  clearCachedQueries().catch(error => console.error('Error clearing local cache:', error));
+  clearQueuedMessages().catch(error => console.error('Error clearing outbox:', error));
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(isRecoveryRedirect);
+  const [sessionRevoked, setSessionRevoked] = useState(false);
+  // Distinguishes our own sign-outs from sessions revoked elsewhere
+  const signingOutRef = useRef(false);
+  // Tagged with the user it was read for, so token refreshes keep the last known level
+  const [assurance, setAssurance] = useState<AssuranceLevel & { userId: string } | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        } else if (event === 'SIGNED_IN') {
+          setSessionRevoked(false);
+        } else if (event === 'SIGNED_OUT') {
+          setPasswordRecovery(false);
+          if (!signingOutRef.current) {
+            // Another tab signing out of this browser isn't a revocation
+            if (!isRecentLocalSignOut()) {
+              setSessionRevoked(true);
+            }
+            clearUserData(queryClient);
+          }
+        }
+
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
@@ -38,18 +122,48 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient]);
 
-  const signUp = async (email: string, password: string, displayName?: string) => {
-    const redirectUrl = `${window.location.origin}/`;
-    
+  // Read outside the auth listener; calling back into supabase.auth from it can deadlock
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel().then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error reading MFA assurance level:', error);
+      }
+      setAssurance({
+        userId: session.user.id,
+        current: data?.currentLevel ?? null,
+        next: data?.nextLevel ?? null,
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const assuranceLevel = user && assurance?.userId === user.id
+    ? { current: assurance.current, next: assurance.next }
+    : null;
+
+  const mfaFactors = (user?.factors ?? []).filter(
+    factor => factor.factor_type === 'totp' && factor.status === 'verified'
+  );
+
+  const signUp = async (email: string, password: string, displayName?: string, username?: string) => {
     const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
-        emailRedirectTo: redirectUrl,
+        emailRedirectTo: getEmailRedirectUrl(),
         data: {
           display_name: displayName,
+          // handle_new_user() picks a free variant if this was taken in the meantime
+          username,
         }
       }
     });
@@ -87,22 +201,310 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { error };
   };
 
-  const signOut = async () => {
-    await supabase.auth.signOut();
+  // Sends a single email with both a magic link and a 6-digit code
+  const signInWithOtp = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: getEmailRedirectUrl(),
+        // New accounts go through sign up so they get a display name
+        shouldCreateUser: false,
+      },
+    });
+
+    if (error) {
+      toast({
+        title: "Couldn't send sign-in email",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Check your email",
+        description: "We've sent you a sign-in link and code.",
+      });
+    }
+
+    return { error };
+  };
+
+  const verifyOtp = async (email: string, token: string) => {
+    const { error } = await supabase.auth.verifyOtp({
+      email,
+      token,
+      type: 'email',
+    });
+
+    if (error) {
+      toast({
+        title: "Sign in failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+
+    return { error };
+  };
+
+  const signOut = async ({ scope = 'local' }: { scope?: SignOutScope } = {}) => {
+    signingOutRef.current = true;
+    markLocalSignOut();
+    const { error } = await supabase.auth.signOut({ scope });
+    signingOutRef.current = false;
+
+    if (error) {
+      toast({
+        title: "Sign out failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { error };
+    }
+
+    if (scope === 'others') {
+      toast({
+        title: "Signed out other sessions",
+        description: "You're still signed in on this device.",
+      });
+      return { error: null };
+    }
+
+    clearUserData(queryClient);
     toast({
       title: "Signed out",
-      description: "You've been signed out successfully.",
+      description: scope === 'global'
+        ? "You've been signed out on all devices."
+        : "You've been signed out successfully.",
+    });
+
+    return { error: null };
+  };
+
+  const resetPasswordForEmail = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/auth/reset`,
+    });
+
+    if (error) {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Check your email",
+        description: "If an account exists for that address, we've sent a password reset link.",
+      });
+    }
+
+    return { error };
+  };
+
+  const updatePassword = async (password: string, currentPassword?: string) => {
+    // Supabase doesn't check the old password itself. Signing in again to confirm it
+    // would replace the session with an AAL1 one, so check it in the database instead.
+    if (currentPassword !== undefined) {
+      const { data: matches, error } = await supabase.rpc('verify_current_password', {
+        current_password: currentPassword,
+      });
+
+      if (error) {
+        console.error('Error verifying password:', error);
+        toast({
+          title: "Password not changed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return { error: new AuthError(error.message) };
+      }
+
+      if (!matches) {
+        toast({
+          title: "Password not changed",
+          description: "Your current password is incorrect.",
+          variant: "destructive",
+        });
+        return { error: new AuthError('Invalid login credentials', 400, 'invalid_credentials') };
+      }
+    }
+
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      toast({
+        title: "Password not changed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPasswordRecovery(false);
+      toast({
+        title: "Password updated",
+        description: "Use your new password the next time you sign in.",
+      });
+    }
+
+    return { error };
+  };
+
+  const enrollMfa = async () => {
+    // Abandoned enrollments leave unverified factors behind; clear them first
+    const stale = (user?.factors ?? []).filter(factor => factor.status === 'unverified');
+    await Promise.all(stale.map(factor => supabase.auth.mfa.unenroll({ factorId: factor.id })));
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: `Authenticator app (${new Date().toLocaleDateString()})`,
+    });
+
+    if (error) {
+      toast({
+        title: "Couldn't start MFA setup",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { data: null, error };
+    }
+
+    return {
+      data: { factorId: data.id, qrCode: toQrCodeSrc(data.totp.qr_code), secret: data.totp.secret },
+      error: null,
+    };
+  };
+
+  const regenerateRecoveryCodes = async () => {
+    const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+
+    if (error) {
+      console.error('Error generating recovery codes:', error);
+      toast({
+        title: "Couldn't generate recovery codes",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { recoveryCodes: null, error: new Error(error.message) };
+    }
+
+    return { recoveryCodes: data, error: null };
+  };
+
+  const verifyMfaEnrollment = async (factorId: string, code: string) => {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+    if (error) {
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { recoveryCodes: null, error };
+    }
+
+    // The session is now AAL2, which generating recovery codes requires. MFA is on
+    // even if this fails; the codes can be generated again from settings.
+    const { recoveryCodes } = await regenerateRecoveryCodes();
+    return { recoveryCodes, error: null };
+  };
+
+  const challengeMfa = async (code: string) => {
+    const [factor] = mfaFactors;
+    if (!factor) {
+      return { error: new AuthError('No authenticator is set up for this account') };
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+
+    if (error) {
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+
+    return { error };
+  };
+
+  const redeemRecoveryCode = async (code: string) => {
+    const { data: redeemed, error } = await supabase.rpc('redeem_mfa_recovery_code', {
+      recovery_code: code,
     });
+
+    if (error) {
+      console.error('Error redeeming recovery code:', error);
+      toast({
+        title: "Recovery failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { error: new Error(error.message) };
+    }
+
+    if (!redeemed) {
+      toast({
+        title: "Recovery failed",
+        description: "That recovery code is invalid or has already been used.",
+        variant: "destructive",
+      });
+      return { error: new Error('Invalid recovery code') };
+    }
+
+    // Pick up the removed factors so the user is asked to enroll a new authenticator
+    await supabase.auth.refreshSession();
+    toast({
+      title: "Recovery code accepted",
+      description: "Set up a new authenticator to finish signing in.",
+    });
+
+    return { error: null };
+  };
+
+  const unenrollMfa = async (factorId: string) => {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+    if (error) {
+      toast({
+        title: "Couldn't remove authenticator",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { error };
+    }
+
+    // Unenrolling downgrades the session; refresh so the new level and factors are seen
+    await supabase.auth.refreshSession();
+    toast({
+      title: "Authenticator removed",
+      description: "Set up a new one to keep using TalkSync.",
+    });
+
+    return { error: null };
   };
 
   return (
     <AuthContext.Provider value={{
       user,
       session,
-      loading,
+      // Also wait for the MFA level so gated pages don't flash the wrong screen
+      loading: loading || (!!user && !assuranceLevel),
       signUp,
       signIn,
       signOut,
+      sessionRevoked,
+      signInWithOtp,
+      verifyOtp,
+      resetPasswordForEmail,
+      updatePassword,
+      passwordRecovery,
+      assuranceLevel,
+      mfaFactors,
+      enrollMfa,
+      verifyMfaEnrollment,
+      challengeMfa,
+      redeemRecoveryCode,
+      regenerateRecoveryCodes,
+      unenrollMfa,
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,36 @@
+import { useEffect, useId, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Whether the app can currently reach Supabase. The browser's online flag alone
+ * misses captive portals and server outages, so a realtime channel is joined as
+ * well: it errors when the socket drops and is joined again once it reconnects.
+ */
+export function useConnectionStatus() {
+  const [browserOnline, setBrowserOnline] = useState(navigator.onLine);
+  const [socketConnected, setSocketConnected] = useState(true);
+  // Channels are shared by name, so every caller joins one of its own
+  const channelId = useId();
+
+  useEffect(() => {
+    const handleOnline = () => setBrowserOnline(true);
+    const handleOffline = () => setBrowserOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const channel = supabase
+      .channel(`connection-status-${channelId}`)
+      .subscribe(status => {
+        setSocketConnected(status === 'SUBSCRIBED');
+      });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      supabase.removeChannel(channel);
+    };
+  }, [channelId]);
+
+  return { online: browserOnline && socketConnected };
+}
@@ -0,0 +1,288 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocalSnapshot, useSaveLocalSnapshot } from '@/hooks/useLocalSnapshot';
+import { MessageSender } from '@/lib/messages';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface Conversation {
+  id: string;
+  name: string | null;
+  description: string | null;
+  type: string;
+  updated_at: string;
+  created_by: string | null;
+  message_retention_days: number | null;
+  last_message_at: string;
+  last_message: {
+    content: string;
+    sender_id: string;
+    is_deleted: boolean | null;
+    attachment_name: string | null;
+    profiles: MessageSender | null;
+  } | null;
+  other_user_id?: string;
+  other_user?: MessageSender;
+  // Everyone except the current user, used for composed group avatars
+  members: MessageSender[];
+}
+
+export function getConversationName(conversation: Conversation) {
+  if (conversation.type === 'group') {
+    return conversation.name || 'Group Chat';
+  }
+  return conversation.other_user?.display_name || conversation.other_user?.username || 'Unknown User';
+}
+
+const CONVERSATION_SELECT = `
+  id,
+  name,
+  description,
+  type,
+  updated_at,
+  created_by,
+  message_retention_days,
+  last_message_at,
+  last_message:messages!last_message_id(
+    content,
+    sender_id,
+    is_deleted,
+    attachment_name,
+    profiles(username, display_name)
+  ),
+  conversation_participants!inner(
+    user_id,
+    profiles(username, display_name, avatar_url, status_text)
+  )
+` as const;
+
+// The current user's conversations, most recently active first
+export function useConversations() {
+  const { user } = useAuth();
+  const queryKey = queryKeys.conversations(user?.id);
+  const snapshot = useLocalSnapshot<Conversation[]>(queryKey);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Conversation[]> => {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(CONVERSATION_SELECT)
+        .order('last_message_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Resolve the other participant of DMs and the members shown in group avatars
+      return data.map(({ conversation_participants: participants, ...conversation }) => {
+        const others = participants.filter(p => p.user_id !== user.id);
+        const members = others.filter(p => p.profiles).map(p => p.profiles);
+
+        if (conversation.type === 'dm') {
+          return {
+            ...conversation,
+            other_user_id: others[0]?.user_id,
+            other_user: others[0]?.profiles,
+            members,
+          };
+        }
+        return { ...conversation, members };
+      });
+    },
+    enabled: !!user,
+    placeholderData: snapshot,
+  });
+
+  useSaveLocalSnapshot(queryKey, query.data, query.isSuccess && !query.isPlaceholderData);
+
+  return query;
+}
+
+/**
+ * Opens the DM with another user, creating it first if the two have never
+ * talked. Resolves with the conversation id and whether it is new.
+ */
+export function useStartDirectMessage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (otherUserId: string) => {
+      if (!user) throw new Error('You must be signed in to start a conversation');
+
+      // Reuse the DM with this user if there is one; groups they share don't count
+      const { data: existingDms, error: lookupError } = await supabase
+        .from('conversations')
+        .select('id, other:conversation_participants!inner(user_id), participants:conversation_participants(user_id)')
+        .eq('type', 'dm')
+        .eq('other.user_id', otherUserId);
+
+      if (lookupError) throw lookupError;
+
+      const existingDm = existingDms.find(conversation => conversation.participants.length === 2);
+
+      if (existingDm) {
+        return { conversationId: existingDm.id, created: false };
+      }
+
+      // Create new conversation
+      const { data: conversation, error: convError } = await supabase
+        .from('conversations')
+        .insert({
+          type: 'dm',
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (convError) throw convError;
+
+      // Add participants
+      const { error: participantsError } = await supabase
+        .from('conversation_participants')
+        .insert([
+          { conversation_id: conversation.id, user_id: user.id },
+          { conversation_id: conversation.id, user_id: otherUserId },
+        ]);
+
+      if (participantsError) throw participantsError;
+
+      return { conversationId: conversation.id, created: true };
+    },
+    onSuccess: ({ created }) => {
+      if (created) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.conversations(user.id) });
+      }
+    },
+  });
+}
+
+export interface CreateGroupInput {
+  name: string;
+  description?: string;
+  memberIds: string[];
+}
+
+// Creates a group and adds its members in one transaction; resolves with its id
+export function useCreateGroupConversation() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, description, memberIds }: CreateGroupInput) => {
+      const { data: conversationId, error } = await supabase.rpc('create_group_conversation', {
+        group_name: name,
+        group_description: description || undefined,
+        member_ids: memberIds,
+      });
+
+      if (error) throw error;
+      return conversationId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(user.id) });
+    },
+  });
+}
+
+export interface SetMessageRetentionInput {
+  conversationId: string;
+  // null keeps deleted messages forever
+  retentionDays: number | null;
+}
+
+// Only the conversation's creator can change how long deleted messages are kept
+export function useSetMessageRetention() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, retentionDays }: SetMessageRetentionInput) => {
+      const { error } = await supabase.rpc('set_message_retention', {
+        target_conversation_id: conversationId,
+        retention_days: retentionDays,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(user.id) });
+    },
+  });
+}
+
+// Unread message count per conversation id
+export function useUnreadCounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.unreadCounts(user?.id),
+    queryFn: async (): Promise<Record<string, number>> => {
+      const { data, error } = await supabase.rpc('get_unread_counts');
+
+      if (error) throw error;
+
+      return Object.fromEntries(
+        (data || []).map(row => [row.conversation_id, Number(row.unread_count)])
+      );
+    },
+    enabled: !!user,
+  });
+}
+
+/**
+ * Keeps the conversation list and unread counts current. Mount it once for the
+ * whole chat UI: realtime channels are shared by name, so a second subscriber
+ * would be torn down together with the first.
+ */
+export function useConversationsRealtime() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const invalidateConversations = () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(user.id) });
+    };
+    const invalidateUnreadCounts = () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.unreadCounts(user.id) });
+    };
+
+    const channel = supabase
+      .channel('conversations-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversations'
+        },
+        invalidateConversations
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages'
+        },
+        invalidateUnreadCounts
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `user_id=eq.${user.id}`
+        },
+        invalidateUnreadCounts // Read position moved
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { getCacheKey, readCachedQuery, writeCachedQuery } from '@/lib/localCache';
+
+/**
+ * Returns the last locally saved copy of a query's data, meant to be used as
+ * its placeholderData while the server is queried in the background.
+ */
+export function useLocalSnapshot<T>(queryKey: readonly unknown[]) {
+  const { user } = useAuth();
+  const cacheKey = user ? getCacheKey(user.id, queryKey) : null;
+  const [snapshot, setSnapshot] = useState<{ key: string; data: T | undefined } | null>(null);
+
+  useEffect(() => {
+    if (!cacheKey) return;
+
+    let cancelled = false;
+    readCachedQuery<T>(cacheKey)
+      .then(cached => {
+        if (!cancelled) setSnapshot({ key: cacheKey, data: cached });
+      })
+      .catch(error => console.error('Error reading local cache:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey]);
+
+  return snapshot?.key === cacheKey ? snapshot.data : undefined;
+}
+
+/**
+ * Saves a query's data locally whenever it changes. Pass `enabled: false` while
+ * the query is still showing its placeholder, so only server data is saved.
+ */
+export function useSaveLocalSnapshot<T>(
+  queryKey: readonly unknown[],
+  data: T | undefined,
+  enabled: boolean
+) {
+  const { user } = useAuth();
+  const cacheKey = user ? getCacheKey(user.id, queryKey) : null;
+
+  useEffect(() => {
+    if (!cacheKey || !enabled || data === undefined) return;
+
+    writeCachedQuery(cacheKey, data)
+      .catch(error => console.error('Error writing local cache:', error));
+  }, [cacheKey, enabled, data]);
+}
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface MessageSearchFilters {
+  query: string;
+  conversationId?: string | null;
+  senderId?: string | null;
+  sentAfter?: Date;
+  sentBefore?: Date;
+}
+
+// Matches are wrapped in these characters by search_messages()
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export function useMessageSearch(filters: MessageSearchFilters) {
+  const { user } = useAuth();
+  const query = filters.query.trim();
+
+  return useQuery({
+    queryKey: queryKeys.messageSearch(user?.id, { ...filters, query }),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_messages', {
+        search_query: query,
+        filter_conversation_id: filters.conversationId ?? undefined,
+        filter_sender_id: filters.senderId ?? undefined,
+        sent_after: filters.sentAfter?.toISOString(),
+        sent_before: filters.sentBefore?.toISOString(),
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && query.length >= 2,
+    // Keep the previous results on screen while the next query runs
+    placeholderData: previous => previous,
+  });
+}
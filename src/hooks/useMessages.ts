@@ -0,0 +1,259 @@
+import { useEffect, useMemo } from 'react';
+import { InfiniteData, QueryClient, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useLocalSnapshot, useSaveLocalSnapshot } from '@/hooks/useLocalSnapshot';
+import { updateParticipantInCache } from '@/hooks/useParticipants';
+import { REACTION_SELECT, removeReactionFromCache, upsertReactionInCache } from '@/hooks/useReactions';
+import type { Tables } from '@/integrations/supabase/types';
+import { MESSAGE_SELECT, Message, MessageCursor, fetchMessagePage } from '@/lib/messages';
+import { getQueuedMessages } from '@/lib/outbox';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export type MessagePages = InfiniteData<MessagePage, MessageCursor | null>;
+
+/**
+ * Replaces the cached message with the same id, or appends it to the newest page.
+ * Optimistic messages use their final id, so the stored row simply takes their place.
+ */
+export function upsertMessageInCache(queryClient: QueryClient, message: Message) {
+  queryClient.setQueryData<MessagePages>(queryKeys.messages(message.conversation_id), data => {
+    if (!data) return data;
+
+    if (data.pages.some(page => page.messages.some(m => m.id === message.id))) {
+      return {
+        ...data,
+        pages: data.pages.map(page => ({
+          ...page,
+          messages: page.messages.map(m => (m.id === message.id ? message : m)),
+        })),
+      };
+    }
+
+    // Pages are stored newest first; the first page is the one that receives new messages
+    const [newest, ...older] = data.pages;
+    return {
+      ...data,
+      pages: [{ ...newest, messages: [...newest.messages, message] }, ...older],
+    };
+  });
+}
+
+export function removeMessageFromCache(queryClient: QueryClient, message: Message) {
+  queryClient.setQueryData<MessagePages>(queryKeys.messages(message.conversation_id), data => {
+    if (!data) return data;
+
+    return {
+      ...data,
+      pages: data.pages.map(page => ({
+        ...page,
+        messages: page.messages.filter(m => m.id !== message.id),
+      })),
+    };
+  });
+}
+
+// Edits and deletions only change the row's own columns, so they are merged in
+// place along with any reply quotes of the message
+function applyMessageUpdate(queryClient: QueryClient, conversationId: string, updated: Tables<'messages'>) {
+  queryClient.setQueryData<MessagePages>(queryKeys.messages(conversationId), data => {
+    if (!data) return data;
+
+    return {
+      ...data,
+      pages: data.pages.map(page => ({
+        ...page,
+        messages: page.messages.map(m => {
+          if (m.id === updated.id) {
+            return {
+              ...m,
+              content: updated.content,
+              edited_at: updated.edited_at,
+              is_deleted: updated.is_deleted,
+              attachment_path: updated.attachment_path,
+              attachment_name: updated.attachment_name,
+              attachment_size: updated.attachment_size,
+              attachment_mime_type: updated.attachment_mime_type,
+            };
+          }
+          if (m.parent?.id === updated.id) {
+            return {
+              ...m,
+              parent: {
+                ...m.parent,
+                content: updated.content,
+                is_deleted: updated.is_deleted,
+                attachment_name: updated.attachment_name,
+              },
+            };
+          }
+          return m;
+        }),
+      })),
+    };
+  });
+}
+
+// Messages still in the outbox are shown after the newest stored ones, so they
+// survive reloads and refetches until they are delivered or discarded
+async function fetchNewestPage(conversationId: string): Promise<MessagePage> {
+  const page = await fetchMessagePage(conversationId);
+
+  try {
+    const queued = await getQueuedMessages({ conversationId });
+    const stored = new Set(page.messages.map(m => m.id));
+    const pending = queued
+      .filter(entry => !stored.has(entry.id))
+      .map(entry => ({ ...entry.message, status: entry.failed ? 'failed' as const : 'pending' as const }));
+
+    return { ...page, messages: [...page.messages, ...pending] };
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return page;
+  }
+}
+
+/**
+ * Message history of a conversation, paged backwards from the newest message.
+ *
+ * Realtime INSERT and UPDATE events are written straight into the cache, so the
+ * history is never refetched while the conversation is open. The conversation
+ * has a single realtime channel, so reaction and read receipt events are written
+ * into the useReactions and useParticipants caches from the same subscription.
+ */
+export function useMessages(conversationId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.messages(conversationId);
+  // The newest page from the last visit renders instantly while the server is queried
+  const snapshot = useLocalSnapshot<MessagePages>(queryKey);
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => (
+      pageParam ? fetchMessagePage(conversationId, pageParam) : fetchNewestPage(conversationId)
+    ),
+    initialPageParam: null as MessageCursor | null,
+    getNextPageParam: lastPage => (lastPage.hasMore ? lastPage.messages[0] ?? null : null),
+    // Realtime keeps an open conversation current; refetching would reload every page
+    refetchOnWindowFocus: false,
+    // Keep recently opened conversations in memory so switching back is instant
+    gcTime: 30 * 60 * 1000,
+    placeholderData: snapshot,
+  });
+
+  // Only the newest stored messages are saved; the outbox restores unsent ones
+  const newestPage = query.isPlaceholderData ? undefined : query.data?.pages[0];
+  const savedPages = useMemo<MessagePages | undefined>(
+    () => newestPage && {
+      pages: [{ ...newestPage, messages: newestPage.messages.filter(m => !m.status) }],
+      pageParams: [null],
+    },
+    [newestPage]
+  );
+  useSaveLocalSnapshot(queryKey, savedPages, !!savedPages);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`messages-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        async (payload) => {
+          // The payload has no sender profile or reply quote, so load the full row
+          const { data: newMessage } = await supabase
+            .from('messages')
+            .select(MESSAGE_SELECT)
+            .eq('id', payload.new.id)
+            .single();
+
+          if (newMessage) {
+            upsertMessageInCache(queryClient, newMessage);
+          }
+          if (payload.new.parent_message_id) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.threads(conversationId) });
+            queryClient.invalidateQueries({ queryKey: queryKeys.threadReplyCounts(conversationId) });
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          applyMessageUpdate(queryClient, conversationId, payload.new as Tables<'messages'>);
+          // Open threads are loaded separately from the history
+          queryClient.invalidateQueries({ queryKey: queryKeys.threads(conversationId) });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          updateParticipantInCache(queryClient, conversationId, payload.new as Tables<'conversation_participants'>);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        async (payload) => {
+          const { data: reaction } = await supabase
+            .from('message_reactions')
+            .select(REACTION_SELECT)
+            .eq('id', payload.new.id)
+            .single();
+
+          if (reaction) {
+            upsertReactionInCache(queryClient, conversationId, reaction);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // DELETE events cannot be filtered; ids from other conversations are simply not found
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions'
+        },
+        (payload) => {
+          removeReactionFromCache(queryClient, conversationId, payload.old.id);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, queryClient]);
+
+  // Oldest page first, so messages render in chronological order
+  const messages = useMemo(
+    () => query.data?.pages.slice().reverse().flatMap(page => page.messages) ?? [],
+    [query.data]
+  );
+
+  return { ...query, messages };
+}
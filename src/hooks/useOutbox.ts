@@ -0,0 +1,71 @@
+import { useEffect } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useConnectionStatus } from '@/hooks/useConnectionStatus';
+import {
+  deliverMessage,
+  getQueuedMessages,
+  isNetworkError,
+  markQueuedMessageFailed,
+  removeQueuedMessage,
+} from '@/lib/outbox';
+import { upsertMessageInCache } from './useMessages';
+
+let flushing = false;
+let flushRequested = false;
+
+async function deliverQueuedMessages(queryClient: QueryClient, userId: string) {
+  for (const entry of await getQueuedMessages({ senderId: userId })) {
+    if (entry.failed) continue;
+
+    try {
+      const stored = await deliverMessage(entry.message);
+      await removeQueuedMessage(entry.id);
+      upsertMessageInCache(queryClient, stored);
+    } catch (error) {
+      // Stop at the first connectivity problem so later messages never overtake
+      // earlier ones; everything is retried on reconnect
+      if (isNetworkError(error)) return;
+
+      console.error('Error sending message:', error);
+      await markQueuedMessageFailed(entry);
+      upsertMessageInCache(queryClient, { ...entry.message, status: 'failed' });
+    }
+  }
+}
+
+/**
+ * Sends queued messages one at a time, oldest first. Calls made while a flush
+ * is running schedule another pass instead of delivering concurrently.
+ */
+export async function flushOutbox(queryClient: QueryClient, userId: string) {
+  if (flushing) {
+    flushRequested = true;
+    return;
+  }
+
+  flushing = true;
+  try {
+    do {
+      flushRequested = false;
+      await deliverQueuedMessages(queryClient, userId);
+    } while (flushRequested);
+  } catch (error) {
+    console.error('Error flushing outbox:', error);
+  } finally {
+    flushing = false;
+  }
+}
+
+// Delivers anything left in the outbox on startup and whenever the connection returns
+export function useOutboxSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { online } = useConnectionStatus();
+
+  useEffect(() => {
+    if (user && online) {
+      flushOutbox(queryClient, user.id);
+    }
+  }, [user, online, queryClient]);
+}
@@ -0,0 +1,43 @@
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { MessageSender } from '@/lib/messages';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface Participant {
+  user_id: string;
+  joined_at: string;
+  last_read_at: string | null;
+  profiles: MessageSender | null;
+}
+
+// Read positions move through realtime UPDATE events; the rest of the row is unchanged
+export function updateParticipantInCache(
+  queryClient: QueryClient,
+  conversationId: string,
+  updated: Tables<'conversation_participants'>
+) {
+  queryClient.setQueryData<Participant[]>(queryKeys.participants(conversationId), participants => (
+    participants?.map(p => (
+      p.user_id === updated.user_id ? { ...p, last_read_at: updated.last_read_at } : p
+    ))
+  ));
+}
+
+// Members of a conversation with their read positions, used for read receipts
+export function useParticipants(conversationId: string) {
+  return useQuery({
+    queryKey: queryKeys.participants(conversationId),
+    queryFn: async (): Promise<Participant[]> => {
+      const { data, error } = await supabase
+        .from('conversation_participants')
+        .select('user_id, joined_at, last_read_at, profiles(username, display_name)')
+        .eq('conversation_id', conversationId);
+
+      if (error) throw error;
+      return data;
+    },
+    // Realtime keeps read positions current while the conversation is open
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,150 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+// Without input for this long, an open tab is reported as away
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+// How often last_seen is refreshed while connected
+const HEARTBEAT_MS = 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'touchstart'] as const;
+
+interface PresenceContextType {
+  status: PresenceStatus;
+  getStatus: (userId: string) => PresenceStatus;
+}
+
+interface PresencePayload {
+  user_id: string;
+  status: PresenceStatus;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export function PresenceProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<PresenceStatus>('online');
+  const [onlineUsers, setOnlineUsers] = useState<Record<string, PresenceStatus>>({});
+  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const userId = user?.id;
+
+  // Join the shared presence channel while signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase.channel('online-users', {
+      config: { presence: { key: userId } },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        const next: Record<string, PresenceStatus> = {};
+
+        // A user with any active tab counts as online
+        Object.values(state).flat().forEach(p => {
+          if (next[p.user_id] !== 'online') next[p.user_id] = p.status;
+        });
+
+        setOnlineUsers(next);
+      })
+      .subscribe((subscriptionStatus) => {
+        if (subscriptionStatus === 'SUBSCRIBED') {
+          channel.track({ user_id: userId, status: document.hasFocus() ? 'online' : 'away' });
+        }
+      });
+
+    return () => {
+      channelRef.current = null;
+      setOnlineUsers({});
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // Derive online/away from focus, visibility and idle time
+  useEffect(() => {
+    if (!userId) return;
+
+    let idleTimer: ReturnType<typeof setTimeout>;
+
+    const markActive = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => setStatus('away'), IDLE_TIMEOUT_MS);
+      if (document.visibilityState === 'visible' && document.hasFocus()) {
+        setStatus('online');
+      }
+    };
+
+    const markAway = () => setStatus('away');
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') markActive();
+      else markAway();
+    };
+
+    markActive();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    window.addEventListener('focus', markActive);
+    window.addEventListener('blur', markAway);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      window.removeEventListener('focus', markActive);
+      window.removeEventListener('blur', markAway);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [userId]);
+
+  // Broadcast and persist status changes
+  useEffect(() => {
+    if (!userId) return;
+
+    channelRef.current?.track({ user_id: userId, status });
+
+    const persist = (nextStatus: PresenceStatus) =>
+      supabase
+        .from('profiles')
+        .update({ status: nextStatus, last_seen: new Date().toISOString() })
+        .eq('id', userId)
+        .then(({ error }) => {
+          if (error) console.error('Error updating presence:', error);
+        });
+
+    persist(status);
+    const heartbeat = setInterval(() => persist(status), HEARTBEAT_MS);
+
+    // Best effort: the request may not complete once the page is gone, in which
+    // case last_seen is at most one heartbeat old
+    const handlePageHide = () => persist('offline');
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [userId, status]);
+
+  const getStatus = useCallback(
+    (id: string): PresenceStatus => onlineUsers[id] ?? 'offline',
+    [onlineUsers]
+  );
+
+  return (
+    <PresenceContext.Provider value={{ status, getStatus }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+}
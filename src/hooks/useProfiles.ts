@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface Profile {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  last_seen: string | null;
+  status_text: string | null;
+}
+
+const PROFILE_SELECT = 'id, username, display_name, avatar_url, last_seen, status_text';
+
+export function useProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profile(userId),
+    queryFn: async (): Promise<Profile> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(PROFILE_SELECT)
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+}
+
+// Everyone the current user can start a conversation with
+export function useProfiles({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.profiles(),
+    queryFn: async (): Promise<Profile[]> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(PROFILE_SELECT)
+        .order('display_name');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+  });
+}
+
+export type ProfileUpdate = Pick<TablesUpdate<'profiles'>, 'display_name' | 'username' | 'status_text' | 'avatar_url'>;
+
+/**
+ * Updates the current user's profile. Names and avatars are embedded in the
+ * profile list and the conversation list, so both are refreshed afterwards.
+ */
+export function useUpdateProfile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (updates: ProfileUpdate) => {
+      const { error } = await supabase
+        .from('profiles')
+        .update(updates)
+        .eq('id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, updates) => {
+      queryClient.setQueryData<Profile>(queryKeys.profile(user.id), profile => (
+        profile && { ...profile, ...updates }
+      ));
+      // Also covers every queryKeys.profile() entry
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations(user.id) });
+    },
+  });
+}
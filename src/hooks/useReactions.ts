@@ -0,0 +1,102 @@
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Message, MessageSender } from '@/lib/messages';
+import { queryKeys } from '@/lib/queryKeys';
+
+export const REACTION_SELECT = 'id, message_id, user_id, emoji, profiles(username, display_name)';
+
+export interface Reaction {
+  id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  profiles: MessageSender | null;
+}
+
+export function upsertReactionInCache(queryClient: QueryClient, conversationId: string, reaction: Reaction) {
+  queryClient.setQueryData<Reaction[]>(queryKeys.reactions(conversationId), reactions => (
+    reactions && !reactions.some(r => r.id === reaction.id) ? [...reactions, reaction] : reactions
+  ));
+}
+
+export function removeReactionFromCache(queryClient: QueryClient, conversationId: string, reactionId: string) {
+  queryClient.setQueryData<Reaction[]>(queryKeys.reactions(conversationId), reactions => (
+    reactions?.filter(r => r.id !== reactionId)
+  ));
+}
+
+// Reactions to every message of a conversation, oldest first. Kept current by
+// the conversation's realtime channel in useMessages.
+export function useReactions(conversationId: string) {
+  return useQuery({
+    queryKey: queryKeys.reactions(conversationId),
+    queryFn: async (): Promise<Reaction[]> => {
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .select(REACTION_SELECT)
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    // Realtime keeps the list current while the conversation is open
+    refetchOnWindowFocus: false,
+  });
+}
+
+export interface ToggleReactionInput {
+  message: Message;
+  emoji: string;
+}
+
+/**
+ * Adds the current user's reaction to a message, or removes it if they already
+ * reacted with that emoji. Removals are applied optimistically.
+ */
+export function useToggleReaction(conversationId: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ message, emoji }: ToggleReactionInput) => {
+      const reactions = queryClient.getQueryData<Reaction[]>(queryKeys.reactions(conversationId)) ?? [];
+      const existing = reactions.find(
+        r => r.message_id === message.id && r.user_id === user.id && r.emoji === emoji
+      );
+
+      if (existing) {
+        removeReactionFromCache(queryClient, conversationId, existing.id);
+        const { error } = await supabase
+          .from('message_reactions')
+          .delete()
+          .eq('id', existing.id);
+
+        if (error) {
+          upsertReactionInCache(queryClient, conversationId, existing);
+          throw error;
+        }
+        return;
+      }
+
+      const { data: reaction, error } = await supabase
+        .from('message_reactions')
+        .insert({ message_id: message.id, user_id: user.id, emoji })
+        .select(REACTION_SELECT)
+        .single();
+
+      if (error) throw error;
+      upsertReactionInCache(queryClient, conversationId, reaction);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update reaction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
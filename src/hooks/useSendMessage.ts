@@ -0,0 +1,86 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfiles';
+import { UploadedAttachment, isImageAttachment } from '@/lib/attachments';
+import { Message } from '@/lib/messages';
+import { queueMessage, removeQueuedMessage } from '@/lib/outbox';
+import { removeMessageFromCache, upsertMessageInCache } from './useMessages';
+import { flushOutbox } from './useOutbox';
+
+export interface SendMessageInput {
+  conversationId: string;
+  content?: string;
+  attachment?: UploadedAttachment;
+  replyTo?: Message | null;
+}
+
+/**
+ * Sends messages optimistically through the persistent outbox. Each message gets
+ * its id on the client, so it is rendered right away as pending and the stored
+ * row (from the outbox flush or the realtime INSERT, whichever comes first)
+ * replaces it in place. Messages typed while offline wait in the outbox; failed
+ * ones stay in the list until they are retried or discarded.
+ */
+export function useSendMessage() {
+  const { user } = useAuth();
+  const { data: profile } = useProfile(user?.id);
+  const queryClient = useQueryClient();
+
+  const enqueue = async (message: Message) => {
+    upsertMessageInCache(queryClient, { ...message, status: 'pending' });
+
+    try {
+      await queueMessage(message);
+    } catch (error) {
+      console.error('Error queueing message:', error);
+      upsertMessageInCache(queryClient, { ...message, status: 'failed' });
+      return;
+    }
+
+    flushOutbox(queryClient, message.sender_id);
+  };
+
+  const send = ({ conversationId, content, attachment, replyTo }: SendMessageInput) => {
+    if (!user) return;
+
+    return enqueue({
+      id: crypto.randomUUID(),
+      conversation_id: conversationId,
+      sender_id: user.id,
+      content: attachment ? attachment.name : content.trim(),
+      created_at: new Date().toISOString(),
+      edited_at: null,
+      is_deleted: false,
+      type: attachment ? (isImageAttachment(attachment.mimeType) ? 'image' : 'file') : 'text',
+      attachment_path: attachment?.path ?? null,
+      attachment_name: attachment?.name ?? null,
+      attachment_size: attachment?.size ?? null,
+      attachment_mime_type: attachment?.mimeType ?? null,
+      parent_message_id: replyTo?.id ?? null,
+      profiles: profile ?? null,
+      parent: replyTo
+        ? {
+            id: replyTo.id,
+            content: replyTo.content,
+            is_deleted: replyTo.is_deleted,
+            attachment_name: replyTo.attachment_name,
+            profiles: replyTo.profiles,
+          }
+        : null,
+    });
+  };
+
+  // Retried messages keep their id, so a delivery that actually went through is not duplicated
+  const retry = (message: Message) => enqueue(message);
+
+  const discard = async (message: Message) => {
+    removeMessageFromCache(queryClient, message);
+    try {
+      await removeQueuedMessage(message.id);
+    } catch (error) {
+      console.error('Error removing queued message:', error);
+    }
+  };
+
+  return { send, retry, discard };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import { isRecentLocalSignOut } from '@/lib/sessions';
+
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface AuthSession {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_active_at: string;
+  aal: string;
+  is_current: boolean;
+}
+
+// The current user's active sessions, this one first
+export function useSessions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.sessions(user?.id),
+    queryFn: async (): Promise<AuthSession[]> => {
+      const { data, error } = await supabase.rpc('get_sessions');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+}
+
+export function useRevokeSession() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { error } = await supabase.rpc('revoke_session', { target_session_id: sessionId });
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.sessions(user?.id) }),
+  });
+}
+
+/**
+ * Whether the current session has been revoked elsewhere. Access tokens stay valid
+ * until they expire, so this asks the database periodically and whenever the tab
+ * regains focus. Sign-outs noticed by Supabase Auth itself count as well.
+ */
+export function useSessionRevoked() {
+  const { user, sessionRevoked } = useAuth();
+  const userId = user?.id;
+  const [revoked, setRevoked] = useState(false);
+
+  useEffect(() => {
+    if (!userId || revoked) return;
+
+    const check = async () => {
+      const { data: active, error } = await supabase.rpc('is_session_active');
+      // Network errors say nothing about the session; try again next time
+      if (!error && active === false && !isRecentLocalSignOut()) {
+        setRevoked(true);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    check();
+    const interval = setInterval(check, SESSION_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [userId, revoked]);
+
+  return revoked || sessionRevoked;
+}
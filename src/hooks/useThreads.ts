@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { MESSAGE_SELECT, Message } from '@/lib/messages';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface Thread {
+  root: Message | null;
+  replies: Message[];
+}
+
+/**
+ * The whole thread a message belongs to, loaded from the server so it doesn't
+ * depend on which pages of history are loaded. Any message of the thread can be
+ * passed; the root is resolved by get_thread_message_ids().
+ */
+export function useThread(conversationId: string, messageId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.thread(conversationId, messageId),
+    queryFn: async (): Promise<Thread> => {
+      const { data: members, error: membersError } = await supabase.rpc('get_thread_message_ids', {
+        target_message_id: messageId,
+      });
+
+      if (membersError) throw membersError;
+      if (!members.length) return { root: null, replies: [] };
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .in('id', members.map(member => member.id))
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (error) throw error;
+
+      const rootId = members.find(member => member.depth === 0)?.id;
+      return {
+        root: data.find(message => message.id === rootId) ?? null,
+        replies: data.filter(message => message.id !== rootId),
+      };
+    },
+    enabled: !!messageId,
+  });
+}
+
+// Number of replies per thread in a conversation, keyed by the thread's first message
+export function useThreadReplyCounts(conversationId: string) {
+  return useQuery({
+    queryKey: queryKeys.threadReplyCounts(conversationId),
+    queryFn: async (): Promise<Record<string, number>> => {
+      const { data, error } = await supabase.rpc('get_thread_reply_counts', {
+        target_conversation_id: conversationId,
+      });
+
+      if (error) throw error;
+
+      return Object.fromEntries(
+        (data || []).map(row => [row.root_message_id, Number(row.reply_count)])
+      );
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// How long after the last keystroke a user still counts as typing
+const TYPING_TIMEOUT_MS = 3000;
+// Minimum gap between presence updates while the user keeps typing
+const TYPING_THROTTLE_MS = 1500;
+
+interface TypingPresence {
+  user_id: string;
+  name: string;
+  typing: boolean;
+  typed_at: number;
+}
+
+export interface TypingUser {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Shares "is typing" state for a conversation over realtime presence.
+ *
+ * Nothing is written to the database. Presence entries disappear when a client
+ * disconnects, and entries received more than TYPING_TIMEOUT_MS ago are ignored
+ * so a frozen tab cannot leave a stale indicator behind. Expiry uses this
+ * client's clock only, since other clients' clocks may be skewed.
+ *
+ * The channel is private: realtime authorization policies only let
+ * participants of the conversation join it.
+ */
+export function useTypingIndicator(conversationId: string | null) {
+  const { user } = useAuth();
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentRef = useRef(0);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const name = user?.user_metadata?.display_name || user?.email?.split('@')[0] || 'Someone';
+
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    const channel = supabase.channel(`typing-${conversationId}`, {
+      config: { private: true, presence: { key: user.id } },
+    });
+    channelRef.current = channel;
+
+    // When each presence update arrived here, keyed by sender and their timestamp
+    const receivedAt = new Map<string, number>();
+
+    const refresh = () => {
+      const now = Date.now();
+      const state = channel.presenceState<TypingPresence>();
+      const entries = Object.values(state).flat();
+      const keys = new Set(entries.map(p => `${p.user_id}:${p.typed_at}`));
+
+      for (const key of receivedAt.keys()) {
+        if (!keys.has(key)) receivedAt.delete(key);
+      }
+      for (const key of keys) {
+        if (!receivedAt.has(key)) receivedAt.set(key, now);
+      }
+
+      const users = entries
+        .filter(p => (
+          p.user_id !== user.id
+          && p.typing
+          && now - receivedAt.get(`${p.user_id}:${p.typed_at}`) < TYPING_TIMEOUT_MS
+        ))
+        .map(p => ({ userId: p.user_id, name: p.name }));
+
+      setTypingUsers(prev => (
+        prev.length === users.length && prev.every((u, i) => u.userId === users[i].userId)
+          ? prev
+          : users
+      ));
+    };
+
+    channel
+      .on('presence', { event: 'sync' }, refresh)
+      .subscribe();
+
+    // Re-evaluate periodically so stale entries expire even without new events
+    const interval = setInterval(refresh, 1000);
+
+    return () => {
+      clearInterval(interval);
+      clearTimeout(stopTimerRef.current);
+      channelRef.current = null;
+      lastSentRef.current = 0;
+      setTypingUsers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, user]);
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(stopTimerRef.current);
+    if (!channelRef.current || !user || lastSentRef.current === 0) return;
+
+    lastSentRef.current = 0;
+    channelRef.current.track({ user_id: user.id, name, typing: false, typed_at: Date.now() });
+  }, [user, name]);
+
+  const notifyTyping = useCallback(() => {
+    if (!channelRef.current || !user) return;
+
+    const now = Date.now();
+    if (now - lastSentRef.current > TYPING_THROTTLE_MS) {
+      lastSentRef.current = now;
+      channelRef.current.track({ user_id: user.id, name, typing: true, typed_at: now });
+    }
+
+    clearTimeout(stopTimerRef.current);
+    stopTimerRef.current = setTimeout(stopTyping, TYPING_TIMEOUT_MS);
+  }, [user, name, stopTyping]);
+
+  return { typingUsers, notifyTyping, stopTyping };
+}
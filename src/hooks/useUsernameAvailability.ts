@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { usernameSchema } from '@/lib/usernames';
+
+const CHECK_DEBOUNCE_MS = 400;
+
+export type UsernameAvailability =
+  | { status: 'idle' }
+  | { status: 'invalid'; message: string }
+  | { status: 'checking' }
+  | { status: 'available' }
+  | { status: 'taken' };
+
+// Validates the format right away and checks availability once typing pauses
+export function useUsernameAvailability(username: string): UsernameAvailability {
+  const [debouncedUsername, setDebouncedUsername] = useState(username);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedUsername(username), CHECK_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [username]);
+
+  const parsed = usernameSchema.safeParse(username);
+  const candidate = parsed.success ? parsed.data : '';
+
+  const { data: available, isError } = useQuery({
+    queryKey: queryKeys.usernameAvailability(candidate),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('is_username_available', { candidate });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!candidate && candidate === debouncedUsername.trim(),
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+
+  if (!username.trim()) return { status: 'idle' };
+  if (!parsed.success) return { status: 'invalid', message: parsed.error.issues[0].message };
+  // If the check fails, let sign-up go ahead; the trigger resolves collisions
+  if (isError) return { status: 'idle' };
+  if (available === undefined || candidate !== debouncedUsername.trim()) return { status: 'checking' };
+  return { status: available ? 'available' : 'taken' };
+}
@@ -19,18 +19,24 @@ export type Database = {
           conversation_id: string
           id: string
           joined_at: string
+          last_read_at: string | null
+          last_read_message_id: string | null
           user_id: string
         }
         Insert: {
           conversation_id: string
           id?: string
           joined_at?: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
           user_id: string
         }
         Update: {
           conversation_id?: string
           id?: string
           joined_at?: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
           user_id?: string
         }
         Relationships: [
@@ -41,6 +47,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversation_participants_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversation_participants_user_id_fkey"
             columns: ["user_id"]
@@ -54,7 +67,11 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          description: string | null
           id: string
+          last_message_at: string
+          last_message_id: string | null
+          message_retention_days: number | null
           name: string | null
           type: string
           updated_at: string
@@ -62,7 +79,11 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          description?: string | null
           id?: string
+          last_message_at?: string
+          last_message_id?: string | null
+          message_retention_days?: number | null
           name?: string | null
           type?: string
           updated_at?: string
@@ -70,7 +91,11 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          description?: string | null
           id?: string
+          last_message_at?: string
+          last_message_id?: string | null
+          message_retention_days?: number | null
           name?: string | null
           type?: string
           updated_at?: string
@@ -83,36 +108,142 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversations_last_message_id_fkey"
+            columns: ["last_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          message_id: string
+          replaced_at: string
+        }
+        Insert: {
+          content: string
+          created_at: string
+          id?: string
+          message_id: string
+          replaced_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          replaced_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       messages: {
         Row: {
+          attachment_mime_type: string | null
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
           content: string
           conversation_id: string
           created_at: string
+          deleted_at: string | null
           edited_at: string | null
           id: string
           is_deleted: boolean | null
+          parent_message_id: string | null
           sender_id: string
           type: string | null
         }
         Insert: {
+          attachment_mime_type?: string | null
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
           content: string
           conversation_id: string
           created_at?: string
+          deleted_at?: string | null
           edited_at?: string | null
           id?: string
           is_deleted?: boolean | null
+          parent_message_id?: string | null
           sender_id: string
           type?: string | null
         }
         Update: {
+          attachment_mime_type?: string | null
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
           content?: string
           conversation_id?: string
           created_at?: string
+          deleted_at?: string | null
           edited_at?: string | null
           id?: string
           is_deleted?: boolean | null
+          parent_message_id?: string | null
           sender_id?: string
           type?: string | null
         }
@@ -124,6 +255,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_message_id_fkey"
+            columns: ["parent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -133,6 +271,30 @@ export type Database = {
           },
         ]
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -141,6 +303,7 @@ export type Database = {
           id: string
           last_seen: string | null
           status: string | null
+          status_text: string | null
           updated_at: string
           username: string
         }
@@ -151,6 +314,7 @@ export type Database = {
           id: string
           last_seen?: string | null
           status?: string | null
+          status_text?: string | null
           updated_at?: string
           username: string
         }
@@ -161,6 +325,7 @@ export type Database = {
           id?: string
           last_seen?: string | null
           status?: string | null
+          status_text?: string | null
           updated_at?: string
           username?: string
         }
@@ -171,7 +336,129 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      count_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      create_group_conversation: {
+        Args: {
+          group_description?: string
+          group_name: string
+          member_ids: string[]
+        }
+        Returns: string
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          aal: string
+          created_at: string
+          id: string
+          ip: string
+          is_current: boolean
+          last_active_at: string
+          user_agent: string
+        }[]
+      }
+      get_thread_message_ids: {
+        Args: {
+          target_message_id: string
+        }
+        Returns: {
+          depth: number
+          id: string
+        }[]
+      }
+      get_thread_reply_counts: {
+        Args: {
+          target_conversation_id: string
+        }
+        Returns: {
+          reply_count: number
+          root_message_id: string
+        }[]
+      }
+      get_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          conversation_id: string
+          unread_count: number
+        }[]
+      }
+      is_mfa_satisfied: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_session_active: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_username_available: {
+        Args: {
+          candidate: string
+        }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: {
+          target_conversation_id: string
+        }
+        Returns: undefined
+      }
+      purge_deleted_messages: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      redeem_mfa_recovery_code: {
+        Args: {
+          recovery_code: string
+        }
+        Returns: boolean
+      }
+      revoke_session: {
+        Args: {
+          target_session_id: string
+        }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: {
+          filter_conversation_id?: string
+          filter_sender_id?: string
+          result_limit?: number
+          search_query: string
+          sent_after?: string
+          sent_before?: string
+        }
+        Returns: {
+          content: string
+          conversation_id: string
+          created_at: string
+          headline: string
+          id: string
+          rank: number
+          sender_display_name: string
+          sender_id: string
+          sender_username: string
+        }[]
+      }
+      set_message_retention: {
+        Args: {
+          retention_days: number
+          target_conversation_id: string
+        }
+        Returns: undefined
+      }
+      verify_current_password: {
+        Args: {
+          current_password: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
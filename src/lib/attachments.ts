@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+export interface UploadedAttachment {
+  path: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+export function isImageAttachment(mimeType: string | null | undefined) {
+  return !!mimeType && mimeType.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Objects live under `<conversation id>/` so storage RLS can check participation
+function buildAttachmentPath(conversationId: string, file: File) {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  return `${conversationId}/${crypto.randomUUID()}-${safeName}`;
+}
+
+/**
+ * Uploads a file into the conversation's attachment folder.
+ *
+ * supabase-js does not report upload progress, so the file is sent with an
+ * XMLHttpRequest to a signed upload URL instead.
+ */
+export async function uploadAttachment(
+  conversationId: string,
+  file: File,
+  onProgress?: (percent: number) => void,
+): Promise<UploadedAttachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+
+  const path = buildAttachmentPath(conversationId, file);
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUploadUrl(path);
+
+  if (error) throw error;
+
+  const body = new FormData();
+  body.append('cacheControl', '3600');
+  body.append('', file);
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload of ${file.name} failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload of ${file.name} failed`));
+    xhr.send(body);
+  });
+
+  return {
+    path,
+    name: file.name,
+    size: file.size,
+    mimeType: file.type || 'application/octet-stream',
+  };
+}
+
+// Pass `download` to get a URL that saves the file instead of displaying it
+export async function getAttachmentUrl(path: string, download?: string | boolean) {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, 60 * 60, download ? { download } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const AVATARS_BUCKET = 'avatars';
+export const AVATAR_SIZE = 256;
+
+export function getInitials(name: string) {
+  return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+}
+
+export function loadImage(file: File) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not a supported image`));
+    };
+    image.src = url;
+  });
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      'image/webp',
+      0.9
+    );
+  });
+}
+
+/**
+ * Uploads a cropped avatar and returns its public URL.
+ *
+ * Each upload gets a fresh object name so browsers and the CDN never serve a
+ * stale cached image. The previous avatar is left in place; callers remove it
+ * once the profile points at the new one.
+ */
+export async function uploadAvatar(userId: string, image: Blob) {
+  const path = `${userId}/${Date.now()}.webp`;
+  const { error } = await supabase.storage
+    .from(AVATARS_BUCKET)
+    .upload(path, image, { contentType: 'image/webp', cacheControl: '31536000' });
+
+  if (error) throw error;
+
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// Only avatars stored in our bucket are removed; external URLs are left alone.
+// Resolves to whether the object was actually deleted.
+export async function removeAvatar(url: string) {
+  const marker = `/object/public/${AVATARS_BUCKET}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return false;
+
+  const path = url.slice(index + marker.length);
+  const { data, error } = await supabase.storage
+    .from(AVATARS_BUCKET)
+    .remove([path]);
+
+  if (error) {
+    console.error('Error removing avatar:', error);
+    return false;
+  }
+  // Objects the caller can't see are skipped without an error
+  if (!data?.length) {
+    console.error(`Avatar ${path} was not removed`);
+    return false;
+  }
+  return true;
+}
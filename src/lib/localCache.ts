@@ -0,0 +1,44 @@
+import { QUERY_CACHE_STORE, withStore } from '@/lib/localDb';
+
+/**
+ * Snapshots of query results kept in IndexedDB, so lists can be rendered
+ * immediately on a cold start while the server is queried in the background.
+ * Keys always include the user id: RLS does not protect data on this device.
+ */
+interface CachedQuery<T = unknown> {
+  key: string;
+  data: T;
+  saved_at: number;
+}
+
+// Enough for every active conversation without growing without bound
+const MAX_CACHED_QUERIES = 100;
+
+export function getCacheKey(userId: string, queryKey: readonly unknown[]) {
+  return JSON.stringify([userId, ...queryKey]);
+}
+
+export async function readCachedQuery<T>(key: string) {
+  const entry = await withStore<CachedQuery<T> | undefined>(QUERY_CACHE_STORE, 'readonly', store =>
+    store.get(key)
+  );
+  return entry?.data;
+}
+
+export async function writeCachedQuery<T>(key: string, data: T) {
+  const entry: CachedQuery<T> = { key, data, saved_at: Date.now() };
+  await withStore(QUERY_CACHE_STORE, 'readwrite', store => store.put(entry));
+
+  // Evict the least recently saved snapshots
+  const keys = await withStore(QUERY_CACHE_STORE, 'readonly', store =>
+    store.index('saved_at').getAllKeys()
+  );
+  const stale = keys.slice(0, Math.max(0, keys.length - MAX_CACHED_QUERIES));
+  for (const staleKey of stale) {
+    await withStore(QUERY_CACHE_STORE, 'readwrite', store => store.delete(staleKey));
+  }
+}
+
+export function clearCachedQueries() {
+  return withStore(QUERY_CACHE_STORE, 'readwrite', store => store.clear());
+}
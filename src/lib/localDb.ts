@@ -0,0 +1,54 @@
+// Browser-local storage for data that has to survive reloads and offline periods
+
+const DB_NAME = 'talksync';
+const DB_VERSION = 2;
+
+export const OUTBOX_STORE = 'outbox';
+export const QUERY_CACHE_STORE = 'query-cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openLocalDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        outbox.createIndex('queued_at', 'queued_at');
+      }
+      if (!db.objectStoreNames.contains(QUERY_CACHE_STORE)) {
+        const cache = db.createObjectStore(QUERY_CACHE_STORE, { keyPath: 'key' });
+        cache.createIndex('saved_at', 'saved_at');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against an object store in its own transaction and
+ * resolves once the transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openLocalDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
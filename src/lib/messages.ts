@@ -0,0 +1,115 @@
+import { formatDistanceToNowStrict } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Columns loaded for every message rendered in a conversation
+export const MESSAGE_SELECT = `
+  id,
+  conversation_id,
+  content,
+  sender_id,
+  created_at,
+  edited_at,
+  is_deleted,
+  type,
+  attachment_path,
+  attachment_name,
+  attachment_size,
+  attachment_mime_type,
+  parent_message_id,
+  profiles(username, display_name, avatar_url),
+  parent:messages!parent_message_id(
+    id,
+    content,
+    is_deleted,
+    attachment_name,
+    profiles(username, display_name)
+  )
+` as const;
+
+export interface MessageSender {
+  username: string;
+  display_name: string | null;
+  avatar_url?: string | null;
+  status_text?: string | null;
+}
+
+export interface ParentMessagePreview {
+  id: string;
+  content: string;
+  is_deleted: boolean | null;
+  attachment_name: string | null;
+  profiles: MessageSender | null;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  content: string;
+  sender_id: string;
+  created_at: string;
+  edited_at: string | null;
+  is_deleted: boolean | null;
+  type: string | null;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  attachment_size: number | null;
+  attachment_mime_type: string | null;
+  parent_message_id: string | null;
+  profiles: MessageSender | null;
+  parent: ParentMessagePreview | null;
+  // Client-only delivery state of a message sent from this device; unset once stored
+  status?: 'pending' | 'failed';
+}
+
+export type MessageCursor = Pick<Message, 'created_at' | 'id'>;
+
+/**
+ * Loads one page of messages, newest first, strictly older than `before`.
+ *
+ * Pages are keyed on (created_at, id) so messages sharing a timestamp are never
+ * skipped or repeated. The page is returned in ascending order for rendering.
+ */
+export async function fetchMessagePage(conversationId: string, before?: MessageCursor) {
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells us whether an older page exists
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return {
+    messages: data.slice(0, MESSAGE_PAGE_SIZE).reverse() as Message[],
+    hasMore: data.length > MESSAGE_PAGE_SIZE,
+  };
+}
+
+export function getSenderName(sender: MessageSender | null | undefined) {
+  return sender?.display_name || sender?.username || 'Unknown User';
+}
+
+// Short single-line text used for reply quotes and previews
+export function getMessageSnippet(message: Pick<Message, 'content' | 'is_deleted' | 'attachment_name'>) {
+  if (message.is_deleted) return 'Message deleted';
+  if (message.attachment_name) return `📎 ${message.attachment_name}`;
+  return message.content;
+}
+
+// Relative timestamp for lists, e.g. "5 minutes ago"
+export function formatConversationTimestamp(timestamp: string) {
+  const date = new Date(timestamp);
+  if (Date.now() - date.getTime() < 60 * 1000) return 'Just now';
+  return formatDistanceToNowStrict(date, { addSuffix: true });
+}
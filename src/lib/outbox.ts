@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MESSAGE_SELECT, Message } from '@/lib/messages';
+import { OUTBOX_STORE, withStore } from '@/lib/localDb';
+
+/**
+ * A message waiting to be stored. The message id is generated on the client and
+ * doubles as the idempotency key, so delivering an entry twice never creates a
+ * second message.
+ */
+export interface OutboxEntry {
+  id: string;
+  message: Message;
+  queued_at: number;
+  // Rejected by the server; kept until the user retries or discards it
+  failed: boolean;
+}
+
+// Postgres unique_violation: a retried insert whose first attempt was stored
+const UNIQUE_VIOLATION = '23505';
+
+export function queueMessage(message: Message) {
+  // Delivery state is derived from the entry rather than stored with the message
+  const { status: _status, ...stored } = message;
+  const entry: OutboxEntry = {
+    id: message.id,
+    message: stored,
+    queued_at: Date.now(),
+    failed: false,
+  };
+  return withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+}
+
+export function markQueuedMessageFailed(entry: OutboxEntry) {
+  return withStore(OUTBOX_STORE, 'readwrite', store => store.put({ ...entry, failed: true }));
+}
+
+export function removeQueuedMessage(id: string) {
+  return withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+}
+
+// Unsent messages belong to the signed-out user and must not be delivered later
+export function clearQueuedMessages() {
+  return withStore(OUTBOX_STORE, 'readwrite', store => store.clear());
+}
+
+// Queued messages in the order they were sent
+export async function getQueuedMessages(filter: { senderId?: string; conversationId?: string }) {
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store =>
+    store.index('queued_at').getAll()
+  );
+
+  return entries.filter(entry =>
+    (!filter.senderId || entry.message.sender_id === filter.senderId)
+    && (!filter.conversationId || entry.message.conversation_id === filter.conversationId)
+  );
+}
+
+// Fetch failures surface as errors without a Postgres or PostgREST code
+export function isNetworkError(error: unknown) {
+  return !navigator.onLine || !(error as { code?: string })?.code;
+}
+
+export async function deliverMessage(message: Message): Promise<Message> {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      id: message.id,
+      conversation_id: message.conversation_id,
+      sender_id: message.sender_id,
+      content: message.content,
+      type: message.type,
+      attachment_path: message.attachment_path,
+      attachment_name: message.attachment_name,
+      attachment_size: message.attachment_size,
+      attachment_mime_type: message.attachment_mime_type,
+      parent_message_id: message.parent_message_id,
+    });
+
+  if (error && error.code !== UNIQUE_VIOLATION) throw error;
+
+  const { data, error: fetchError } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', message.id)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return data;
+}
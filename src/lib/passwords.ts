@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Matches the minimum enforced by Supabase Auth
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const newPasswordSchema = z
+  .object({
+    password: z
+      .string()
+      .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      .max(72, 'Password must be at most 72 characters'),
+    confirm_password: z.string(),
+  })
+  .refine(values => values.password === values.confirm_password, {
+    message: 'Passwords do not match',
+    path: ['confirm_password'],
+  });
+
+export type NewPasswordValues = z.infer<typeof newPasswordSchema>;
@@ -0,0 +1,17 @@
+// Cache keys shared by the chat query hooks, so realtime handlers and mutations
+// update exactly the data the components read
+export const queryKeys = {
+  conversations: (userId: string) => ['conversations', userId] as const,
+  unreadCounts: (userId: string) => ['unread-counts', userId] as const,
+  messages: (conversationId: string) => ['messages', conversationId] as const,
+  reactions: (conversationId: string) => ['reactions', conversationId] as const,
+  participants: (conversationId: string) => ['participants', conversationId] as const,
+  threads: (conversationId: string) => ['threads', conversationId] as const,
+  thread: (conversationId: string, messageId: string) => ['threads', conversationId, messageId] as const,
+  threadReplyCounts: (conversationId: string) => ['thread-reply-counts', conversationId] as const,
+  messageSearch: (userId: string, filters: object) => ['message-search', userId, filters] as const,
+  profiles: () => ['profiles'] as const,
+  profile: (userId: string) => ['profiles', userId] as const,
+  sessions: (userId: string) => ['sessions', userId] as const,
+  usernameAvailability: (username: string) => ['username-availability', username] as const,
+};
@@ -0,0 +1,57 @@
+export interface SessionDevice {
+  browser: string;
+  os: string;
+  mobile: boolean;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+export function describeUserAgent(userAgent: string | null): SessionDevice {
+  const ua = userAgent ?? '';
+  const match = (candidates: [RegExp, string][]) =>
+    candidates.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Unknown';
+
+  return {
+    browser: match(BROWSERS),
+    os: match(OPERATING_SYSTEMS),
+    mobile: /Mobi|iPhone|iPod|Android/.test(ua),
+  };
+}
+
+// Set by the tab that signs out. Other tabs of this browser lose the shared session
+// at the same moment and must not mistake that for a revocation from another device.
+const LOCAL_SIGN_OUT_KEY = 'talksync:local-sign-out';
+const LOCAL_SIGN_OUT_WINDOW_MS = 10 * 1000;
+
+export function markLocalSignOut() {
+  try {
+    localStorage.setItem(LOCAL_SIGN_OUT_KEY, String(Date.now()));
+  } catch (error) {
+    console.error('Error recording sign-out:', error);
+  }
+}
+
+export function isRecentLocalSignOut() {
+  try {
+    const signedOutAt = Number(localStorage.getItem(LOCAL_SIGN_OUT_KEY));
+    return Date.now() - signedOutAt < LOCAL_SIGN_OUT_WINDOW_MS;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,38 @@
+export const IS_MAC = /Mac|iPhone|iPad/.test(navigator.userAgent);
+export const MOD_KEY = IS_MAC ? '⌘' : 'Ctrl';
+
+// Ctrl on Windows/Linux, Cmd on macOS
+export function isModKey(e: KeyboardEvent) {
+  return IS_MAC ? e.metaKey : e.ctrlKey;
+}
+
+export interface KeyboardShortcut {
+  keys: string[];
+  description: string;
+}
+
+// Shown in the shortcut help dialog; keep in sync with the handlers in ChatInterface and MessageInput
+export const KEYBOARD_SHORTCUTS: { group: string; shortcuts: KeyboardShortcut[] }[] = [
+  {
+    group: 'General',
+    shortcuts: [
+      { keys: [MOD_KEY, 'K'], description: 'Open the command palette' },
+      { keys: [MOD_KEY, '/'], description: 'Show keyboard shortcuts' },
+    ],
+  },
+  {
+    group: 'Conversations',
+    shortcuts: [
+      { keys: ['Alt', '↑'], description: 'Previous conversation' },
+      { keys: ['Alt', '↓'], description: 'Next conversation' },
+    ],
+  },
+  {
+    group: 'Message box',
+    shortcuts: [
+      { keys: ['Enter'], description: 'Send message' },
+      { keys: ['↑'], description: 'Edit your last message when the box is empty' },
+      { keys: ['Esc'], description: 'Clear the draft, then the reply' },
+    ],
+  },
+];
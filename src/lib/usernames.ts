@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Keep in sync with is_username_available() and handle_new_user()
+export const usernameSchema = z
+  .string()
+  .trim()
+  .min(3, 'Username must be at least 3 characters')
+  .max(30, 'Username must be at most 30 characters')
+  .regex(/^[a-zA-Z0-9_.-]+$/, 'Only letters, numbers, dots, dashes and underscores');
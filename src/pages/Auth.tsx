@@ -1,15 +1,25 @@
 import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { Navigate } from 'react-router-dom';
+import { useUsernameAvailability } from '@/hooks/useUsernameAvailability';
+import { Link, Navigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+const OTP_LENGTH = 6;
 
 const Auth = () => {
-  const { user, signIn, signUp } = useAuth();
+  const { user, signIn, signUp, signInWithOtp, verifyOtp, sessionRevoked } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the sign-in email is sent, switching the tab to code entry
+  const [otpEmail, setOtpEmail] = useState<string | null>(null);
+  const [otpCode, setOtpCode] = useState('');
+  const [username, setUsername] = useState('');
+  const usernameAvailability = useUsernameAvailability(username);
 
   // Redirect if already authenticated
   if (user) {
@@ -37,7 +47,33 @@ const Auth = () => {
     const password = formData.get('password') as string;
     const displayName = formData.get('displayName') as string;
     
-    await signUp(email, password, displayName);
+    await signUp(email, password, displayName, username.trim());
+    setIsLoading(false);
+  };
+
+  const handleSendOtp = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+
+    const { error } = await signInWithOtp(email);
+    if (!error) {
+      setOtpEmail(email);
+      setOtpCode('');
+    }
+    setIsLoading(false);
+  };
+
+  const handleVerifyOtp = async (code = otpCode) => {
+    if (!otpEmail || code.length !== OTP_LENGTH) return;
+
+    setIsLoading(true);
+    const { error } = await verifyOtp(otpEmail, code);
+    if (error) {
+      setOtpCode('');
+    }
     setIsLoading(false);
   };
 
@@ -49,9 +85,15 @@ const Auth = () => {
           <CardDescription>Sign in to your account or create a new one</CardDescription>
         </CardHeader>
         <CardContent>
+          {sessionRevoked && (
+            <p className="mb-4 rounded-md border border-border bg-muted px-3 py-2 text-sm text-muted-foreground">
+              Your session was ended, possibly from another device. Sign in again to continue.
+            </p>
+          )}
           <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
+              <TabsTrigger value="email">Email Code</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
             </TabsList>
             
@@ -68,7 +110,12 @@ const Auth = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="signin-password">Password</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="signin-password">Password</Label>
+                    <Link to="/auth/reset" className="text-sm text-muted-foreground hover:text-foreground">
+                      Forgot password?
+                    </Link>
+                  </div>
                   <Input
                     id="signin-password"
                     name="password"
@@ -83,6 +130,71 @@ const Auth = () => {
               </form>
             </TabsContent>
             
+            <TabsContent value="email">
+              {otpEmail ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleVerifyOtp();
+                  }}
+                  className="space-y-4"
+                >
+                  <p className="text-sm text-muted-foreground">
+                    We sent a sign-in link and a {OTP_LENGTH}-digit code to <span className="font-medium text-foreground">{otpEmail}</span>.
+                    Open the link, or enter the code below.
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={OTP_LENGTH}
+                      pattern={REGEXP_ONLY_DIGITS}
+                      value={otpCode}
+                      onChange={setOtpCode}
+                      onComplete={handleVerifyOtp}
+                      disabled={isLoading}
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading || otpCode.length !== OTP_LENGTH}>
+                    {isLoading ? "Verifying..." : "Verify code"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="w-full"
+                    onClick={() => setOtpEmail(null)}
+                    disabled={isLoading}
+                  >
+                    Use a different email
+                  </Button>
+                </form>
+              ) : (
+                <form onSubmit={handleSendOtp} className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Sign in without a password. We'll email you a magic link and a one-time code.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="otp-email">Email</Label>
+                    <Input
+                      id="otp-email"
+                      name="email"
+                      type="email"
+                      placeholder="Enter your email"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? "Sending..." : "Email me a sign-in code"}
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
                 <div className="space-y-2">
@@ -92,8 +204,35 @@ const Auth = () => {
                     name="displayName"
                     type="text"
                     placeholder="Enter your display name"
+                    maxLength={50}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signup-username">Username</Label>
+                  <Input
+                    id="signup-username"
+                    name="username"
+                    type="text"
+                    placeholder="Choose a username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    aria-invalid={usernameAvailability.status === 'invalid' || usernameAvailability.status === 'taken'}
                     required
                   />
+                  {usernameAvailability.status === 'invalid' && (
+                    <p className="text-sm text-destructive">{usernameAvailability.message}</p>
+                  )}
+                  {usernameAvailability.status === 'checking' && (
+                    <p className="text-sm text-muted-foreground">Checking availability...</p>
+                  )}
+                  {usernameAvailability.status === 'available' && (
+                    <p className="text-sm text-muted-foreground">@{username.trim()} is available</p>
+                  )}
+                  {usernameAvailability.status === 'taken' && (
+                    <p className="text-sm text-destructive">This username is already taken</p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="signup-email">Email</Label>
@@ -115,7 +254,11 @@ const Auth = () => {
                     required
                   />
                 </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading || usernameAvailability.status === 'invalid' || usernameAvailability.status === 'taken'}
+                >
                   {isLoading ? "Creating account..." : "Sign Up"}
                 </Button>
               </form>
@@ -1,6 +1,7 @@
 import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
 import { ChatInterface } from '@/components/chat/ChatInterface';
+import { MfaGate } from '@/components/auth/MfaGate';
 
 const Index = () => {
   const { user, loading } = useAuth();
@@ -20,7 +21,11 @@ const Index = () => {
     return <Navigate to="/auth" replace />;
   }
 
-  return <ChatInterface />;
+  return (
+    <MfaGate>
+      <ChatInterface />
+    </MfaGate>
+  );
 };
 
 export default Index;
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MfaGate } from '@/components/auth/MfaGate';
+import { NewPasswordValues, newPasswordSchema } from '@/lib/passwords';
+
+// Expired or reused links redirect back with the reason in the hash
+const getRedirectError = () =>
+  new URLSearchParams(window.location.hash.slice(1)).get('error_description');
+
+const SetNewPasswordForm = () => {
+  const { updatePassword } = useAuth();
+  const navigate = useNavigate();
+
+  const form = useForm<NewPasswordValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirm_password: '',
+    },
+  });
+
+  const onSubmit = async (values: NewPasswordValues) => {
+    const { error } = await updatePassword(values.password);
+
+    if (!error) {
+      navigate('/', { replace: true });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" placeholder="Create a password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirm_password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" placeholder="Repeat the password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Saving..." : "Set new password"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const ResetPassword = () => {
+  const { user, loading, passwordRecovery, resetPasswordForEmail } = useAuth();
+  const [redirectError] = useState(getRedirectError);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  // Signed-in users change their password from settings, which asks for the current one
+  if (user && !passwordRecovery) {
+    return <Navigate to="/settings" replace />;
+  }
+
+  const handleRequestReset = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+
+    const { error } = await resetPasswordForEmail(email);
+    setSent(!error);
+    setIsLoading(false);
+  };
+
+  const linkError = redirectError || (passwordRecovery && !user && 'This reset link is invalid or has expired');
+
+  const page = (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">
+            {user ? 'Choose a new password' : 'Reset your password'}
+          </CardTitle>
+          <CardDescription>
+            {user
+              ? 'Enter a new password for your account'
+              : "Enter your email and we'll send you a link to reset your password"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {user ? (
+            <SetNewPasswordForm />
+          ) : (
+            <form onSubmit={handleRequestReset} className="space-y-4">
+              {linkError && (
+                <p className="text-sm text-destructive">{linkError}</p>
+              )}
+              {sent && (
+                <p className="text-sm text-muted-foreground">
+                  Check your inbox for the reset link. It may take a minute to arrive.
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="reset-email">Email</Label>
+                <Input
+                  id="reset-email"
+                  name="email"
+                  type="email"
+                  placeholder="Enter your email"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Sending..." : sent ? "Send again" : "Send reset link"}
+              </Button>
+              <Button variant="link" className="w-full" asChild>
+                <Link to="/auth">Back to sign in</Link>
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+
+  // Setting a password on an account with MFA takes a verified session too
+  return user ? <MfaGate>{page}</MfaGate> : page;
+};
+
+export default ResetPassword;
@@ -0,0 +1,85 @@
+import { useAuth } from '@/hooks/useAuth';
+import { Link, Navigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { ProfileSettingsForm } from '@/components/settings/ProfileSettingsForm';
+import { ChangePasswordForm } from '@/components/settings/ChangePasswordForm';
+import { MfaSettings } from '@/components/settings/MfaSettings';
+import { SessionsPanel } from '@/components/settings/SessionsPanel';
+import { MfaGate } from '@/components/auth/MfaGate';
+
+const Settings = () => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <MfaGate>
+      <div className="min-h-screen bg-muted/30 p-4">
+        <div className="mx-auto max-w-2xl space-y-6">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/" aria-label="Back to chat">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold">Settings</h1>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Profile</CardTitle>
+              <CardDescription>How other people see you in TalkSync</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProfileSettingsForm />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Password</CardTitle>
+              <CardDescription>Change the password you use to sign in</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangePasswordForm />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Two-factor authentication</CardTitle>
+              <CardDescription>A code from your authenticator app is required when you sign in</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MfaSettings />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Sessions</CardTitle>
+              <CardDescription>Devices and browsers where you're signed in</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SessionsPanel />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </MfaGate>
+  );
+};
+
+export default Settings;
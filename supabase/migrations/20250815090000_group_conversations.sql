@@ -0,0 +1,60 @@
+/*
+  # Group conversations
+
+  1. Problem
+    - conversations.type already allows 'group', but the client can only create DMs
+    - Creating a conversation and its participants takes several round trips, so a
+      failure halfway leaves an orphaned conversation behind
+
+  2. Solution
+    - Add an optional description to conversations
+    - Add create_group_conversation(), which inserts the conversation and every
+      participant row in a single transaction
+
+  3. Security
+    - The function runs as SECURITY DEFINER but always records auth.uid() as the
+      creator and adds the caller as a participant
+    - Unknown user ids are rejected by the participants foreign key
+*/
+
+ALTER TABLE public.conversations ADD COLUMN description TEXT;
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(
+  group_name TEXT,
+  member_ids UUID[],
+  group_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(btrim(group_name), '') = '' THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  IF COALESCE(array_length(member_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+
+  INSERT INTO public.conversations (name, description, type, created_by)
+  VALUES (btrim(group_name), NULLIF(btrim(group_description), ''), 'group', auth.uid())
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT new_conversation_id, member_id
+  FROM unnest(array_append(member_ids, auth.uid())) AS member_id
+  GROUP BY member_id;
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_group_conversation(TEXT, UUID[], TEXT) TO authenticated;
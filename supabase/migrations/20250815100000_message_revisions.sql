@@ -0,0 +1,70 @@
+/*
+  # Message editing with revision history
+
+  1. Problem
+    - messages.edited_at exists but nothing ever sets it
+    - Once a message is edited its previous content is lost
+
+  2. Solution
+    - Add a message_revisions table holding every prior version of a message
+    - A BEFORE UPDATE trigger on messages records the old content and stamps
+      edited_at whenever content changes, so the client only updates content
+
+  3. Security
+    - Revisions are readable by participants of the message's conversation
+    - Revisions are only written by the trigger; clients cannot insert, update or
+      delete them
+    - Only the sender may edit a message (existing UPDATE policy)
+*/
+
+CREATE TABLE public.message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  replaced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX message_revisions_message_id_idx
+  ON public.message_revisions (message_id, replaced_at);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of messages in their conversations"
+  ON public.message_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.messages m
+      JOIN public.conversation_participants cp ON cp.conversation_id = m.conversation_id
+      WHERE m.id = message_revisions.message_id
+      AND cp.user_id = auth.uid()
+    )
+  );
+
+-- Record the previous content of a message whenever it is edited.
+-- created_at holds when that version was first written: the message creation
+-- time for the original, or the previous edit time for later revisions.
+CREATE OR REPLACE FUNCTION public.record_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+
+    NEW.edited_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_revision
+  BEFORE UPDATE OF content ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.record_message_revision();
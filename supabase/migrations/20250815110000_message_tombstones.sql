@@ -0,0 +1,127 @@
+/*
+  # Soft delete of messages with tombstones and retention
+
+  1. Problem
+    - messages.is_deleted is filtered out by the client but nothing ever sets it
+    - Hiding deleted rows entirely makes the message list jump around when they vanish
+
+  2. Solution
+    - Add messages.deleted_at and a BEFORE UPDATE trigger that, when is_deleted is
+      set, blanks the content server-side and drops the edit history
+    - Deleted messages stay in place as tombstones for a configurable number of days
+      per conversation (conversations.message_retention_days), after which
+      purge_deleted_messages() hard-deletes them
+    - Schedule the purge daily with pg_cron
+
+  3. Security
+    - Deletion reuses the existing "sender can update" policy
+    - A deleted message cannot be restored or edited
+    - Retention can only be changed by the conversation creator, through
+      set_message_retention()
+*/
+
+ALTER TABLE public.messages ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- NULL keeps tombstones forever
+ALTER TABLE public.conversations
+  ADD COLUMN message_retention_days INTEGER DEFAULT 30
+  CHECK (message_retention_days IS NULL OR message_retention_days > 0);
+
+CREATE OR REPLACE FUNCTION public.handle_message_soft_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.is_deleted, false) THEN
+    RAISE EXCEPTION 'Deleted messages cannot be modified';
+  END IF;
+
+  IF COALESCE(NEW.is_deleted, false) THEN
+    NEW.content = '';
+    NEW.deleted_at = now();
+    DELETE FROM public.message_revisions WHERE message_id = OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_message_soft_delete
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_message_soft_delete();
+
+-- Deleting a message must not archive its content as a revision
+CREATE OR REPLACE FUNCTION public.record_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content AND NOT COALESCE(NEW.is_deleted, false) THEN
+    INSERT INTO public.message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+
+    NEW.edited_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_message_retention(
+  target_conversation_id UUID,
+  retention_days INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET message_retention_days = retention_days
+  WHERE id = target_conversation_id
+  AND created_by = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the conversation creator can change message retention';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_message_retention(UUID, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged_count INTEGER;
+BEGIN
+  DELETE FROM public.messages m
+  USING public.conversations c
+  WHERE c.id = m.conversation_id
+  AND m.is_deleted
+  AND c.message_retention_days IS NOT NULL
+  AND m.deleted_at < now() - make_interval(days => c.message_retention_days);
+
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+  RETURN purged_count;
+END;
+$$;
+
+-- The purge is a maintenance job, not something clients should trigger
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_messages() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-deleted-messages',
+  '0 3 * * *',
+  'SELECT public.purge_deleted_messages()'
+);
@@ -0,0 +1,86 @@
+/*
+  # Image and file attachments
+
+  1. Problem
+    - messages.type allows 'image' and 'file', but there is nowhere to store the files
+      and no way to describe them on a message
+
+  2. Solution
+    - Add attachment metadata columns to messages
+    - Create a private 'attachments' storage bucket; objects are stored under
+      `<conversation id>/<uuid>-<file name>`
+    - Clear the attachment metadata when a message is deleted, alongside its content
+
+  3. Security
+    - Participants of a conversation can read and upload objects in its folder
+    - Only the uploader can delete an object
+    - Uses get_user_conversation_ids() to avoid RLS recursion on conversation_participants
+    - Folder names are compared as text, so a path that doesn't start with a
+      conversation id is denied instead of failing the uuid cast
+*/
+
+ALTER TABLE public.messages
+  ADD COLUMN attachment_path TEXT,
+  ADD COLUMN attachment_name TEXT,
+  ADD COLUMN attachment_size BIGINT,
+  ADD COLUMN attachment_mime_type TEXT;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_attachment_type_check
+  CHECK (type = 'text' OR attachment_path IS NOT NULL OR is_deleted);
+
+CREATE OR REPLACE FUNCTION public.handle_message_soft_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.is_deleted, false) THEN
+    RAISE EXCEPTION 'Deleted messages cannot be modified';
+  END IF;
+
+  IF COALESCE(NEW.is_deleted, false) THEN
+    NEW.content = '';
+    NEW.attachment_path = NULL;
+    NEW.attachment_name = NULL;
+    NEW.attachment_size = NULL;
+    NEW.attachment_mime_type = NULL;
+    NEW.deleted_at = now();
+    DELETE FROM public.message_revisions WHERE message_id = OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can view conversation attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.get_user_conversation_ids() id)
+  );
+
+CREATE POLICY "Participants can upload conversation attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.get_user_conversation_ids() id)
+  );
+
+CREATE POLICY "Uploaders can delete their attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND owner = auth.uid()
+  );
@@ -0,0 +1,53 @@
+/*
+  # Threaded replies
+
+  1. Problem
+    - Long group discussions have no way to reply to a specific message
+
+  2. Solution
+    - Add messages.parent_message_id referencing the message being replied to
+    - Replies survive their parent being purged (ON DELETE SET NULL)
+    - A trigger rejects replies to messages in another conversation, and replies
+      can't be re-pointed after they are sent, which also rules out reply cycles
+
+  3. Security
+    - No new policies: replies are ordinary messages and reuse the messages policies
+*/
+
+ALTER TABLE public.messages
+  ADD COLUMN parent_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX messages_parent_message_id_idx ON public.messages (parent_message_id);
+
+CREATE OR REPLACE FUNCTION public.validate_message_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Clearing is allowed: the foreign key does it when the parent is purged
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.parent_message_id IS NOT NULL
+      AND NEW.parent_message_id IS DISTINCT FROM OLD.parent_message_id THEN
+      RAISE EXCEPTION 'The message a reply quotes cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.messages
+    WHERE id = NEW.parent_message_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to the same conversation as their parent';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_message_parent
+  BEFORE INSERT OR UPDATE OF parent_message_id ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.validate_message_parent();
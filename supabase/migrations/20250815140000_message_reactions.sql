@@ -0,0 +1,71 @@
+/*
+  # Emoji reactions on messages
+
+  1. Solution
+    - Add a message_reactions table, one row per (message, user, emoji)
+    - conversation_id is copied from the message by a trigger so realtime
+      subscriptions can filter reactions per conversation
+    - Publish the table to realtime
+
+  2. Security
+    - Participants of a conversation can see all reactions on its messages
+    - Users can only add reactions as themselves, to messages they can see
+    - Users can only remove their own reactions
+*/
+
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX message_reactions_conversation_id_idx ON public.message_reactions (conversation_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.set_reaction_conversation_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reaction_conversation_id
+  BEFORE INSERT ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_reaction_conversation_id();
+
+CREATE POLICY "Users can view reactions in their conversations"
+  ON public.message_reactions
+  FOR SELECT
+  TO authenticated
+  USING (conversation_id IN (SELECT public.get_user_conversation_ids()));
+
+CREATE POLICY "Users can react to messages in their conversations"
+  ON public.message_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND conversation_id IN (SELECT public.get_user_conversation_ids())
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON public.message_reactions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
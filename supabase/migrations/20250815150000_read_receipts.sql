@@ -0,0 +1,76 @@
+/*
+  # Unread counts and read receipts
+
+  1. Problem
+    - conversation_participants only records joined_at, so there is no notion of
+      what a user has read
+
+  2. Solution
+    - Track last_read_at and last_read_message_id per participant
+    - mark_conversation_read() advances the caller's read position to the latest message
+    - get_unread_counts() returns the number of unread messages per conversation
+      for the caller
+
+  3. Security
+    - Participants have no UPDATE policy; the read position is only changed through
+      mark_conversation_read(), which only touches the caller's own row and never
+      moves backwards
+    - Read positions are visible to other participants through the existing
+      SELECT policy, which is what read receipts need
+*/
+
+ALTER TABLE public.conversation_participants
+  ADD COLUMN last_read_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX messages_conversation_id_created_at_idx
+  ON public.messages (conversation_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(target_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest_message RECORD;
+BEGIN
+  SELECT id, created_at INTO latest_message
+  FROM public.messages
+  WHERE conversation_id = target_conversation_id
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  IF latest_message.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = latest_message.created_at,
+      last_read_message_id = latest_message.id
+  WHERE conversation_id = target_conversation_id
+  AND user_id = auth.uid()
+  AND (last_read_at IS NULL OR last_read_at < latest_message.created_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (conversation_id UUID, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.conversation_id, count(m.id) AS unread_count
+  FROM public.conversation_participants cp
+  JOIN public.messages m
+    ON m.conversation_id = cp.conversation_id
+    AND m.created_at > COALESCE(cp.last_read_at, cp.joined_at)
+    AND m.sender_id <> cp.user_id
+    AND NOT COALESCE(m.is_deleted, false)
+  WHERE cp.user_id = auth.uid()
+  GROUP BY cp.conversation_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unread_counts() TO authenticated;
@@ -0,0 +1,59 @@
+/*
+  # Last message tracking on conversations
+
+  1. Problem
+    - The conversation list is sorted by updated_at, which the client bumps with a
+      separate UPDATE after sending a message
+    - There is no UPDATE policy on conversations, so that update silently fails and
+      the list never reorders
+
+  2. Solution
+    - Add last_message_id and last_message_at to conversations
+    - An AFTER INSERT trigger on messages keeps them current, bypassing RLS
+    - Backfill existing conversations; conversations without messages use their
+      creation time so new chats still sort to the top
+
+  3. Security
+    - The trigger runs as SECURITY DEFINER and only touches the conversation the
+      new message belongs to
+*/
+
+ALTER TABLE public.conversations
+  ADD COLUMN last_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  ADD COLUMN last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.conversations c
+SET last_message_id = latest.id,
+    last_message_at = COALESCE(latest.created_at, c.created_at)
+FROM public.conversations c2
+LEFT JOIN LATERAL (
+  SELECT m.id, m.created_at
+  FROM public.messages m
+  WHERE m.conversation_id = c2.id
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1
+) latest ON true
+WHERE c2.id = c.id;
+
+CREATE INDEX conversations_last_message_at_idx ON public.conversations (last_message_at DESC);
+
+CREATE OR REPLACE FUNCTION public.update_conversation_last_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_id = NEW.id,
+      last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id
+  AND last_message_at <= NEW.created_at;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_conversation_last_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.update_conversation_last_message();
@@ -0,0 +1,22 @@
+/*
+  # Presence status on profiles
+
+  1. Problem
+    - profiles.status defaults to 'online' and nothing ever changes it, so every
+      user looks online forever
+
+  2. Solution
+    - Live presence now comes from a realtime presence channel; profiles.status and
+      profiles.last_seen are only the persisted fallback for users who are not connected
+    - Default new profiles to 'offline', reset existing rows and restrict the column
+      to the known states
+    - Index last_seen for "recently active" lookups
+*/
+
+UPDATE public.profiles SET status = 'offline';
+
+ALTER TABLE public.profiles
+  ALTER COLUMN status SET DEFAULT 'offline',
+  ADD CONSTRAINT profiles_status_check CHECK (status IN ('online', 'away', 'offline'));
+
+CREATE INDEX profiles_last_seen_idx ON public.profiles (last_seen DESC);
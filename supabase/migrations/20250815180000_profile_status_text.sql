@@ -0,0 +1,38 @@
+/*
+  # Custom status text on profiles
+
+  1. Solution
+    - Add profiles.status_text, a short free-form status shown next to a user's name
+    - Limit display_name and status_text lengths so the UI can rely on them
+    - Shorten existing display names over the limit first, and truncate the display
+      name handle_new_user() takes from sign-up metadata so sign-up can't fail on it
+
+  2. Security
+    - Covered by the existing "Users can update their own profile" policy
+*/
+
+ALTER TABLE public.profiles ADD COLUMN status_text TEXT;
+
+UPDATE public.profiles
+SET display_name = left(display_name, 50)
+WHERE char_length(display_name) > 50;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_status_text_length CHECK (char_length(status_text) <= 100),
+  ADD CONSTRAINT profiles_display_name_length CHECK (char_length(display_name) <= 50);
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = 'public'
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, display_name)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'username', split_part(NEW.email, '@', 1)),
+    left(COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1)), 50)
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,57 @@
+/*
+  # Avatar storage
+
+  1. Problem
+    - profiles.avatar_url exists but there is nowhere to upload avatar images
+
+  2. Solution
+    - Create a public 'avatars' bucket; each user's images live under `<user id>/`
+    - Images are cropped and resized client-side before upload, so the bucket only
+      accepts small image files
+
+  3. Security
+    - Anyone can read avatars (the bucket is public, like profiles)
+    - Users can only upload, replace or delete objects in their own folder
+    - Public URLs bypass RLS, but the storage API looks objects up before removing
+      them, so users can also select objects in their own folder
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 1048576, ARRAY['image/webp', 'image/png', 'image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own avatar objects"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can replace their own avatar"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,17 @@
+/*
+  # Keyset pagination for messages
+
+  1. Problem
+    - Conversations load their whole history at once
+    - created_at alone is not a stable cursor: several messages can share a timestamp
+
+  2. Solution
+    - Messages are paged newest first with a (created_at, id) cursor
+    - Replace the (conversation_id, created_at) index with one that also covers id,
+      so each page is a single index range scan
+*/
+
+CREATE INDEX messages_conversation_id_created_at_id_idx
+  ON public.messages (conversation_id, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS public.messages_conversation_id_created_at_idx;
@@ -0,0 +1,78 @@
+/*
+  # Full-text message search
+
+  1. Problem
+    - There is no way to find an old message
+
+  2. Solution
+    - GIN index on the English text search vector of messages.content
+    - search_messages() ranks matches for a web-style query (quoted phrases, OR,
+      -exclusions) and can be narrowed to a conversation, a sender and a date range
+    - Each result carries a highlighted snippet; matches are wrapped in the
+      control characters U+0002 / U+0003 so clients can render them without HTML
+
+  3. Security
+    - The function runs with the caller's privileges, so the messages RLS policy
+      applies, and it additionally restricts results to the caller's conversations
+    - Deleted messages are never returned
+*/
+
+CREATE INDEX messages_content_search_idx
+  ON public.messages
+  USING GIN (to_tsvector('english', content));
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+  search_query TEXT,
+  filter_conversation_id UUID DEFAULT NULL,
+  filter_sender_id UUID DEFAULT NULL,
+  sent_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  sent_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  sender_username TEXT,
+  sender_display_name TEXT,
+  content TEXT,
+  headline TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    p.username,
+    p.display_name,
+    m.content,
+    ts_headline(
+      'english',
+      m.content,
+      query.tsq,
+      format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=20, MinWords=5', chr(2), chr(3))
+    ),
+    m.created_at,
+    ts_rank(to_tsvector('english', m.content), query.tsq)
+  FROM query, public.messages m
+  LEFT JOIN public.profiles p ON p.id = m.sender_id
+  WHERE to_tsvector('english', m.content) @@ query.tsq
+    AND m.conversation_id IN (SELECT public.get_user_conversation_ids())
+    AND NOT COALESCE(m.is_deleted, false)
+    AND (filter_conversation_id IS NULL OR m.conversation_id = filter_conversation_id)
+    AND (filter_sender_id IS NULL OR m.sender_id = filter_sender_id)
+    AND (sent_after IS NULL OR m.created_at >= sent_after)
+    AND (sent_before IS NULL OR m.created_at < sent_before)
+  ORDER BY 9 DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_messages(TEXT, UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
@@ -0,0 +1,135 @@
+/*
+  # MFA recovery codes
+
+  1. Problem
+    - TOTP multi-factor authentication is now required, but Supabase Auth has no
+      recovery codes, so losing the authenticator device locks the user out
+    - Changing the password confirmed the current one by signing in again, which
+      replaces the session with an AAL1 one and drops the MFA verification
+
+  2. Solution
+    - mfa_recovery_codes stores SHA-256 hashes of single-use recovery codes
+    - generate_mfa_recovery_codes() replaces the caller's codes with ten new ones
+      and returns them in plain text, once
+    - count_mfa_recovery_codes() returns how many unused codes the caller has left
+    - redeem_mfa_recovery_code() consumes a code and removes the caller's MFA
+      factors, so they can sign in and enroll a new authenticator
+    - verify_current_password() checks the caller's password without touching
+      their session
+
+  3. Security
+    - The table has RLS enabled and no policies; it is only reachable through the
+      SECURITY DEFINER functions below, which only touch the caller's rows
+    - Codes can only be generated from a session verified with MFA (aal2)
+    - Codes carry 48 bits of randomness; only their hashes are stored
+*/
+
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX mfa_recovery_codes_user_id_idx ON public.mfa_recovery_codes (user_id);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are compared without formatting so users can type them with or without dashes
+CREATE OR REPLACE FUNCTION public.hash_mfa_recovery_code(recovery_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(regexp_replace(lower(recovery_code), '[^0-9a-f]', '', 'g'), 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  raw_code TEXT;
+  recovery_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(auth.jwt() ->> 'aal', '') <> 'aal2' THEN
+    RAISE EXCEPTION 'Recovery codes can only be generated after verifying with MFA'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    raw_code := encode(gen_random_bytes(6), 'hex');
+    recovery_code := substr(raw_code, 1, 4) || '-' || substr(raw_code, 5, 4) || '-' || substr(raw_code, 9, 4);
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), public.hash_mfa_recovery_code(recovery_code));
+
+    RETURN NEXT recovery_code;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_mfa_recovery_codes()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid()
+  AND used_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.redeem_mfa_recovery_code(recovery_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.mfa_recovery_codes
+  SET used_at = now()
+  WHERE user_id = auth.uid()
+  AND used_at IS NULL
+  AND code_hash = public.hash_mfa_recovery_code(recovery_code);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- The remaining codes belong to the lost authenticator; enrolling again issues new ones
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_current_password(current_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.users
+    WHERE id = auth.uid()
+    AND encrypted_password = crypt(current_password, encrypted_password)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hash_mfa_recovery_code(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_mfa_recovery_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_current_password(TEXT) TO authenticated;
@@ -0,0 +1,74 @@
+/*
+  # Usernames chosen at sign-up
+
+  1. Problem
+    - Sign-up never sent a username, so handle_new_user() fell back to the email
+      prefix; john@a.com and john@b.com collided on the UNIQUE constraint and the
+      second sign-up failed inside the trigger
+    - Nothing validated usernames coming from user metadata
+
+  2. Solution
+    - is_username_available() lets the sign-up form check a username before the
+      account exists
+    - handle_new_user() strips characters usernames can't contain, and when the
+      requested or derived username is taken (or becomes taken concurrently) it
+      retries with a random suffix instead of failing the sign-up
+
+  3. Security
+    - is_username_available() is callable by anonymous users; it only reveals
+      whether a username exists, which profiles are public to signed-in users anyway
+*/
+
+CREATE OR REPLACE FUNCTION public.is_username_available(candidate TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT candidate ~ '^[a-zA-Z0-9_.-]{3,30}$'
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE username = candidate);
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = 'public'
+AS $$
+DECLARE
+  base_username TEXT;
+  candidate TEXT;
+  attempt INTEGER := 0;
+BEGIN
+  base_username := regexp_replace(
+    COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'username', ''), split_part(NEW.email, '@', 1)),
+    '[^a-zA-Z0-9_.-]', '', 'g'
+  );
+  base_username := left(base_username, 30);
+  IF length(base_username) < 3 THEN
+    base_username := 'user';
+  END IF;
+
+  candidate := base_username;
+  LOOP
+    BEGIN
+      INSERT INTO public.profiles (id, username, display_name)
+      VALUES (
+        NEW.id,
+        candidate,
+        left(COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'display_name', ''), split_part(NEW.email, '@', 1)), 50)
+      );
+      RETURN NEW;
+    EXCEPTION WHEN unique_violation THEN
+      attempt := attempt + 1;
+      IF attempt >= 10 THEN
+        RAISE;
+      END IF;
+      -- Make room for the suffix within the 30 character limit
+      candidate := left(base_username, 24) || '_' || substr(md5(random()::TEXT), 1, 5);
+    END;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_username_available(TEXT) TO anon, authenticated;
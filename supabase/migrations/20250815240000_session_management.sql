@@ -0,0 +1,81 @@
+/*
+  # Session management
+
+  1. Problem
+    - Users can't see where they are signed in or end a session they don't recognise
+    - A session revoked from another device keeps working in open tabs until its
+      access token expires
+
+  2. Solution
+    - get_sessions() lists the caller's active sessions with their device, IP and
+      last activity, flagging the one making the request
+    - revoke_session() ends one of the caller's other sessions; its refresh tokens
+      are removed with it
+    - is_session_active() lets open tabs notice that their session was revoked
+      while the access token is still valid
+
+  3. Security
+    - auth.sessions isn't exposed through the API; these SECURITY DEFINER
+      functions only read or delete the caller's own sessions
+    - Signing out all or other sessions goes through Supabase Auth itself
+*/
+
+CREATE OR REPLACE FUNCTION public.get_sessions()
+RETURNS TABLE (
+  id UUID,
+  user_agent TEXT,
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  aal TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.user_agent,
+    host(s.ip),
+    s.created_at,
+    -- refreshed_at is stored without a time zone, in UTC
+    GREATEST(s.updated_at, s.refreshed_at AT TIME ZONE 'UTC'),
+    s.aal::TEXT,
+    s.id = (auth.jwt() ->> 'session_id')::UUID
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+  AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY 7 DESC, 5 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_session(target_session_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions
+  WHERE id = target_session_id
+  AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_session_active()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.sessions
+    WHERE id = (auth.jwt() ->> 'session_id')::UUID
+    AND user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_session_active() TO authenticated;
@@ -0,0 +1,165 @@
+/*
+  # Enforce MFA in the database
+
+  1. Problem
+    - MFA was only enforced by the client: a session that signed in with a
+      password but never completed the TOTP challenge (aal1) could still read and
+      write conversations directly through the API
+    - verify_current_password() could be called any number of times, so a stolen
+      session could be used to guess the account password
+
+  2. Solution
+    - is_mfa_satisfied() is true when the caller's session is aal2, or when the
+      caller has no verified factor yet
+    - RESTRICTIVE policies require it on every chat table, on profile writes and on
+      the attachments bucket, on top of the existing permissive policies
+    - Failed password checks are recorded in password_verification_attempts;
+      after five failures within fifteen minutes verify_current_password() refuses
+      to check until the window has passed
+
+  3. Security
+    - Users without MFA are unaffected; enrolling a factor upgrades the session to
+      aal2 as part of verifying it
+    - password_verification_attempts has RLS enabled and no policies; it is only
+      reachable through verify_current_password()
+*/
+
+CREATE OR REPLACE FUNCTION public.is_mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', '') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1
+      FROM auth.mfa_factors
+      WHERE user_id = auth.uid()
+      AND status = 'verified'
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_mfa_satisfied() TO authenticated;
+
+CREATE POLICY "Require MFA for conversations"
+  ON public.conversations
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.is_mfa_satisfied())
+  WITH CHECK (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA for conversation participants"
+  ON public.conversation_participants
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.is_mfa_satisfied())
+  WITH CHECK (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA for messages"
+  ON public.messages
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.is_mfa_satisfied())
+  WITH CHECK (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA for message reactions"
+  ON public.message_reactions
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.is_mfa_satisfied())
+  WITH CHECK (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA for message revisions"
+  ON public.message_revisions
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.is_mfa_satisfied())
+  WITH CHECK (public.is_mfa_satisfied());
+
+-- Profiles stay readable so the MFA challenge screen can still show who is signing in
+CREATE POLICY "Require MFA to create profiles"
+  ON public.profiles
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA to update profiles"
+  ON public.profiles
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_mfa_satisfied())
+  WITH CHECK (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA to delete profiles"
+  ON public.profiles
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (public.is_mfa_satisfied());
+
+CREATE POLICY "Require MFA for attachments"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (bucket_id <> 'attachments' OR public.is_mfa_satisfied())
+  WITH CHECK (bucket_id <> 'attachments' OR public.is_mfa_satisfied());
+
+CREATE TABLE public.password_verification_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX password_verification_attempts_user_id_idx
+  ON public.password_verification_attempts (user_id, attempted_at);
+
+ALTER TABLE public.password_verification_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.verify_current_password(current_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  matches BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF (
+    SELECT count(*)
+    FROM public.password_verification_attempts
+    WHERE user_id = auth.uid()
+    AND attempted_at > now() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords. Try again in a few minutes.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.users
+    WHERE id = auth.uid()
+    AND encrypted_password = crypt(current_password, encrypted_password)
+  ) INTO matches;
+
+  IF matches THEN
+    DELETE FROM public.password_verification_attempts WHERE user_id = auth.uid();
+  ELSE
+    INSERT INTO public.password_verification_attempts (user_id) VALUES (auth.uid());
+  END IF;
+
+  RETURN matches;
+END;
+$$;
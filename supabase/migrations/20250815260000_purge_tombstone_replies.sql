@@ -0,0 +1,47 @@
+/*
+  # Purging tombstones that have replies
+
+  1. Problem
+    - Purging a deleted message clears parent_message_id on its replies
+      (ON DELETE SET NULL); when a reply is itself a tombstone,
+      handle_message_soft_delete() rejects the update and the whole purge fails
+      with "Deleted messages cannot be modified"
+
+  2. Solution
+    - handle_message_soft_delete() lets through updates to a deleted message that
+      only clear its parent_message_id, which is what the foreign key action does
+
+  3. Security
+    - Clients still can't modify tombstones: detaching a reply only happens when
+      its parent row is deleted, which clients have no policy for
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_message_soft_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.is_deleted, false) THEN
+    IF NEW.parent_message_id IS NULL
+      AND to_jsonb(NEW) - 'parent_message_id' = to_jsonb(OLD) - 'parent_message_id' THEN
+      RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Deleted messages cannot be modified';
+  END IF;
+
+  IF COALESCE(NEW.is_deleted, false) THEN
+    NEW.content = '';
+    NEW.attachment_path = NULL;
+    NEW.attachment_name = NULL;
+    NEW.attachment_size = NULL;
+    NEW.attachment_mime_type = NULL;
+    NEW.deleted_at = now();
+    DELETE FROM public.message_revisions WHERE message_id = OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
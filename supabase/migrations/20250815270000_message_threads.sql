@@ -0,0 +1,89 @@
+/*
+  # Server-side threads
+
+  1. Problem
+    - Threads were assembled from the loaded pages of history: a thread whose
+      first message hadn't been loaded couldn't be opened, and reply counts only
+      included replies that happened to be loaded
+
+  2. Solution
+    - get_thread_message_ids() follows the reply chain of any message up to the
+      first message of its thread and returns every message in that thread, with
+      its depth (0 for the first message)
+    - get_thread_reply_counts() returns the number of replies in every thread of a
+      conversation, keyed by the thread's first message
+
+  3. Security
+    - Both functions run with the caller's privileges, so the messages RLS policy
+      applies and only threads in the caller's conversations are visible
+    - Replies can't be re-pointed after insert, but the walks still stop at
+      cycles and at a depth of 1000 so bad data can't make them run forever
+*/
+
+CREATE OR REPLACE FUNCTION public.get_thread_message_ids(target_message_id UUID)
+RETURNS TABLE (
+  id UUID,
+  depth INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT m.id, m.parent_message_id, 0 AS height
+    FROM public.messages m
+    WHERE m.id = target_message_id
+    UNION ALL
+    SELECT m.id, m.parent_message_id, a.height + 1
+    FROM public.messages m
+    JOIN ancestors a ON m.id = a.parent_message_id
+    WHERE a.height < 1000
+  ) CYCLE id SET is_cycle USING path,
+  thread AS (
+    SELECT a.id, 0 AS depth
+    FROM ancestors a
+    WHERE a.parent_message_id IS NULL
+    AND NOT a.is_cycle
+    UNION ALL
+    SELECT m.id, t.depth + 1
+    FROM public.messages m
+    JOIN thread t ON m.parent_message_id = t.id
+    WHERE t.depth < 1000
+  ) CYCLE id SET is_cycle USING path
+  SELECT thread.id, thread.depth
+  FROM thread
+  WHERE NOT thread.is_cycle;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_thread_reply_counts(target_conversation_id UUID)
+RETURNS TABLE (
+  root_message_id UUID,
+  reply_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- Walk each reply up its chain; the ancestor without a parent is the thread's root
+  WITH RECURSIVE chain AS (
+    SELECT m.id AS reply_id, m.parent_message_id AS ancestor_id, 1 AS hops
+    FROM public.messages m
+    WHERE m.conversation_id = target_conversation_id
+    AND m.parent_message_id IS NOT NULL
+    UNION ALL
+    SELECT c.reply_id, m.parent_message_id, c.hops + 1
+    FROM chain c
+    JOIN public.messages m ON m.id = c.ancestor_id
+    WHERE m.parent_message_id IS NOT NULL
+    AND c.hops < 1000
+  ) CYCLE ancestor_id SET is_cycle USING path
+  SELECT c.ancestor_id, count(*)
+  FROM chain c
+  JOIN public.messages root ON root.id = c.ancestor_id
+  WHERE root.parent_message_id IS NULL
+  AND NOT c.is_cycle
+  GROUP BY c.ancestor_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_thread_message_ids(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_thread_reply_counts(UUID) TO authenticated;
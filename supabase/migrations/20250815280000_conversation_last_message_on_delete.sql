@@ -0,0 +1,60 @@
+/*
+  # Keep the last message current when messages are deleted
+
+  1. Problem
+    - last_message_id is only set when a message is inserted; when that message is
+      purged the foreign key clears it, and the conversation shows
+      "No messages yet" even though older messages remain
+
+  2. Solution
+    - An AFTER DELETE statement trigger on messages points every affected
+      conversation at its latest remaining message, once per statement so a purge
+      of many messages recomputes each conversation only once
+    - Conversations that have already lost their last message are repaired
+    - last_message_at is left alone when nothing remains, so the conversation
+      keeps its place in the list
+
+  3. Security
+    - The trigger runs as SECURITY DEFINER and only touches conversations whose
+      messages were deleted
+*/
+
+CREATE OR REPLACE FUNCTION public.refresh_conversation_last_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The foreign key has already cleared last_message_id where it pointed at a deleted row
+  UPDATE public.conversations c
+  SET last_message_id = latest.id,
+      last_message_at = latest.created_at
+  FROM (
+    SELECT DISTINCT ON (m.conversation_id) m.conversation_id, m.id, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id IN (SELECT conversation_id FROM deleted_messages)
+    ORDER BY m.conversation_id, m.created_at DESC, m.id DESC
+  ) latest
+  WHERE c.id = latest.conversation_id
+  AND c.last_message_id IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_conversation_last_message
+  AFTER DELETE ON public.messages
+  REFERENCING OLD TABLE AS deleted_messages
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_conversation_last_message();
+
+UPDATE public.conversations c
+SET last_message_id = latest.id,
+    last_message_at = latest.created_at
+FROM (
+  SELECT DISTINCT ON (m.conversation_id) m.conversation_id, m.id, m.created_at
+  FROM public.messages m
+  ORDER BY m.conversation_id, m.created_at DESC, m.id DESC
+) latest
+WHERE c.id = latest.conversation_id
+AND c.last_message_id IS NULL;
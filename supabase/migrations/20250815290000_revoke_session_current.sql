@@ -0,0 +1,33 @@
+/*
+  # Don't revoke the current session through revoke_session()
+
+  1. Problem
+    - revoke_session() accepted the caller's own session, deleting it behind
+      Supabase Auth's back instead of signing out properly; the tab kept a dead
+      session and showed the "signed out from another device" notice
+
+  2. Solution
+    - revoke_session() rejects the session the request was made with; signing out
+      of this device goes through Supabase Auth
+
+  3. Security
+    - Unchanged otherwise: only the caller's own sessions can be deleted
+*/
+
+CREATE OR REPLACE FUNCTION public.revoke_session(target_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF target_session_id = (auth.jwt() ->> 'session_id')::UUID THEN
+    RAISE EXCEPTION 'Sign out to end the current session'
+      USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = target_session_id
+  AND user_id = auth.uid();
+END;
+$$;
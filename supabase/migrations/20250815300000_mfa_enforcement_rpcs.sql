@@ -0,0 +1,322 @@
+/*
+  # Enforce MFA in SECURITY DEFINER functions
+
+  1. Problem
+    - The RESTRICTIVE policies from the MFA enforcement migration only apply to
+      direct table access; SECURITY DEFINER functions bypass RLS, so an aal1
+      session of a user with a verified factor could still create groups, change
+      retention, read unread counts and list or revoke the user's other sessions
+
+  2. Solution
+    - Every SECURITY DEFINER function that reads or writes user data now raises
+      unless is_mfa_satisfied()
+    - get_user_conversation_ids() and get_created_conversation_ids() are used
+      inside RLS policies, so they return no rows instead of raising; the policies
+      then deny access rather than fail the query
+
+  3. Security
+    - Unchanged: redeem_mfa_recovery_code() (it exists to recover an aal1
+      session), generate_mfa_recovery_codes() (already requires aal2),
+      is_username_available() (public), and trigger functions, which only run
+      for writes the policies have already allowed
+    - New SECURITY DEFINER functions that touch user data must do the same check
+*/
+
+CREATE OR REPLACE FUNCTION public.get_user_conversation_ids()
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT conversation_id FROM public.conversation_participants WHERE user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_created_conversation_ids()
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT id FROM public.conversations WHERE created_by = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(
+  group_name TEXT,
+  member_ids UUID[],
+  group_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(btrim(group_name), '') = '' THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  IF COALESCE(array_length(member_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+
+  INSERT INTO public.conversations (name, description, type, created_by)
+  VALUES (btrim(group_name), NULLIF(btrim(group_description), ''), 'group', auth.uid())
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT new_conversation_id, member_id
+  FROM unnest(array_append(member_ids, auth.uid())) AS member_id
+  GROUP BY member_id;
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_message_retention(
+  target_conversation_id UUID,
+  retention_days INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.conversations
+  SET message_retention_days = retention_days
+  WHERE id = target_conversation_id
+  AND created_by = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the conversation creator can change message retention';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(target_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest_message RECORD;
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id, created_at INTO latest_message
+  FROM public.messages
+  WHERE conversation_id = target_conversation_id
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  IF latest_message.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = latest_message.created_at,
+      last_read_message_id = latest_message.id
+  WHERE conversation_id = target_conversation_id
+  AND user_id = auth.uid()
+  AND (last_read_at IS NULL OR last_read_at < latest_message.created_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (conversation_id UUID, unread_count BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT cp.conversation_id, count(m.id) AS unread_count
+  FROM public.conversation_participants cp
+  JOIN public.messages m
+    ON m.conversation_id = cp.conversation_id
+    AND m.created_at > COALESCE(cp.last_read_at, cp.joined_at)
+    AND m.sender_id <> cp.user_id
+    AND NOT COALESCE(m.is_deleted, false)
+  WHERE cp.user_id = auth.uid()
+  GROUP BY cp.conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_mfa_recovery_codes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN (
+    SELECT count(*)::INTEGER
+    FROM public.mfa_recovery_codes
+    WHERE user_id = auth.uid()
+    AND used_at IS NULL
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_current_password(current_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  matches BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  IF (
+    SELECT count(*)
+    FROM public.password_verification_attempts
+    WHERE user_id = auth.uid()
+    AND attempted_at > now() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords. Try again in a few minutes.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.users
+    WHERE id = auth.uid()
+    AND encrypted_password = crypt(current_password, encrypted_password)
+  ) INTO matches;
+
+  IF matches THEN
+    DELETE FROM public.password_verification_attempts WHERE user_id = auth.uid();
+  ELSE
+    INSERT INTO public.password_verification_attempts (user_id) VALUES (auth.uid());
+  END IF;
+
+  RETURN matches;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_sessions()
+RETURNS TABLE (
+  id UUID,
+  user_agent TEXT,
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  aal TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_agent,
+    host(s.ip),
+    s.created_at,
+    -- refreshed_at is stored without a time zone, in UTC
+    GREATEST(s.updated_at, s.refreshed_at AT TIME ZONE 'UTC'),
+    s.aal::TEXT,
+    s.id = (auth.jwt() ->> 'session_id')::UUID
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+  AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY 7 DESC, 5 DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_session(target_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  IF target_session_id = (auth.jwt() ->> 'session_id')::UUID THEN
+    RAISE EXCEPTION 'Sign out to end the current session'
+      USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = target_session_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_session_active()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify with MFA to continue' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM auth.sessions
+    WHERE id = (auth.jwt() ->> 'session_id')::UUID
+    AND user_id = auth.uid()
+  );
+END;
+$$;
@@ -0,0 +1,39 @@
+/*
+  # Private typing channels
+
+  1. Problem
+    - Typing indicators were shared on a public realtime channel named after the
+      conversation id, so anyone holding the anon key and a conversation id could
+      watch who is typing there, or pose as a typist
+
+  2. Solution
+    - useTypingIndicator() joins `typing-<conversation id>` as a private channel
+    - Realtime authorization policies on realtime.messages let participants of
+      the conversation receive and send presence on its typing channel
+
+  3. Security
+    - Channel ids are compared as text, so a topic that doesn't end in a
+      conversation id is denied instead of failing a uuid cast
+    - Uses get_user_conversation_ids(), which returns no rows until MFA is
+      satisfied, so an aal1 session can't join either
+*/
+
+CREATE POLICY "Participants can receive typing presence"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() LIKE 'typing-%'
+    AND split_part(realtime.topic(), 'typing-', 2) IN (SELECT id::text FROM public.get_user_conversation_ids() id)
+  );
+
+CREATE POLICY "Participants can send typing presence"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() LIKE 'typing-%'
+    AND split_part(realtime.topic(), 'typing-', 2) IN (SELECT id::text FROM public.get_user_conversation_ids() id)
+  );